@@ -25,19 +25,83 @@ import { fileURLToPath } from "node:url";
 // Import flights logic
 import {
   searchFlights,
+  searchFareCalendar,
   selectFlight,
   selectSeats,
+  selectExtras,
+  applyFlightPromo,
   createBooking,
+  getBooking,
+  getBookingSeatMap,
+  changeBookingSeats,
+  updatePassenger,
+  cancelBooking,
+  describeSeats,
+  Booking,
 } from "./src/flights.js";
+import { describeFareRules } from "./src/fares.js";
+import { checkIn } from "./src/checkin.js";
+import {
+  simulateDisruption,
+  rebookFlight,
+  getFlightStatus,
+  getCancelledLegs,
+  getRebookingOptions,
+  startDisruptionTimer,
+} from "./src/disruptions.js";
 
 // Import hotels logic
 import {
   searchHotels,
   selectHotel,
   selectRoom,
+  applyHotelPromo,
+  getHotelSearch,
   createHotelBooking,
+  getHotel,
+  groupByNeighborhood,
+  MAX_STAY_NIGHTS,
+  getHotelBooking,
+  modifyHotelBooking,
+  cancelHotelBooking,
+  calculateHotelRefund,
+  HotelBooking,
 } from "./src/hotels.js";
 
+// Import hotel reviews
+import { getHotelReviews, submitHotelReview } from "./src/reviews.js";
+
+// Import loyalty programme
+import {
+  getLoyaltyAccount,
+  getNextTier,
+  getTierBenefits,
+  PERK_DESCRIPTIONS,
+  POINTS_PER_DOLLAR,
+} from "./src/loyalty.js";
+
+// Import trips
+import {
+  createTrip,
+  addBookingsToTrip,
+  getTrip,
+  buildItinerary,
+  TripItinerary,
+} from "./src/trips.js";
+
+// Import shared date validation
+import { DateValidationError } from "./src/dates.js";
+
+// Import traveller profiles
+import {
+  saveTravellerProfile,
+  listTravellerProfiles,
+  deleteTravellerProfile,
+} from "./src/travellers.js";
+
+// Import location lookup
+import { lookupLocation } from "./src/locations.js";
+
 // Import trading logic
 import {
   createPortfolio,
@@ -60,6 +124,50 @@ import {
 // MCP Apps Extension protocol constant
 const RESOURCE_URI_META_KEY = "ui/resourceUri";
 
+// Input schemas for traveller details, shared by booking and profile tools
+const passportSchema = z.object({
+  number: z.string().describe("Passport number (6-9 letters or digits)"),
+  nationality: z
+    .string()
+    .describe("Two-letter nationality country code (e.g., US, GB)"),
+  expiryDate: z.string().describe("Passport expiry date in YYYY-MM-DD format"),
+});
+
+const travellerFields = {
+  name: z.string().describe("Full name as shown on the travel document"),
+  email: z.string().describe("Email address"),
+  phone: z
+    .string()
+    .describe("Phone number in E.164 format (e.g., +14155550100)"),
+  dateOfBirth: z
+    .string()
+    .optional()
+    .describe("Date of birth in YYYY-MM-DD format (required to book)"),
+  passport: passportSchema
+    .optional()
+    .describe("Passport details, required on international routes"),
+};
+
+// Input schema for the rooms of a hotel booking, shared by selection and changes
+const roomSelectionsSchema = z
+  .array(
+    z.object({
+      roomId: z.string().describe("The room type ID"),
+      quantity: z.number().min(1).max(4).describe("Number of rooms of this type"),
+    }),
+  )
+  .min(1);
+
+// Input schema for loyalty points redeemed against a booking, shared by both booking tools
+const redeemPointsSchema = z
+  .number()
+  .int()
+  .min(0)
+  .optional()
+  .describe(
+    "Loyalty points of the lead traveller to redeem against the total, in multiples of 100 ($1 per 100 points)",
+  );
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
@@ -109,6 +217,9 @@ const getServer = async () => {
   const hotelsAppHtml = await loadHtml("hotels-app");
   const tradingAppHtml = await loadHtml("trading-app");
   const kanbanAppHtml = await loadHtml("kanban-app");
+  const boardingPassAppHtml = await loadHtml("boarding-pass-app");
+  const loyaltyAppHtml = await loadHtml("loyalty-app");
+  const itineraryAppHtml = await loadHtml("itinerary-app");
 
   // Helper to register a resource
   const registerResource = (resource: Resource, htmlContent: string) => {
@@ -142,6 +253,18 @@ const getServer = async () => {
     flightsAppHtml,
   );
 
+  // Register the boarding pass UI resource
+  const boardingPassResource = registerResource(
+    {
+      name: "boarding-pass-app-template",
+      uri: "ui://flights/boarding-pass-app.html",
+      title: "Boarding Pass",
+      description: "Boarding passes with gate, boarding group and barcode",
+      mimeType: "text/html+mcp",
+    },
+    boardingPassAppHtml,
+  );
+
   // Register the hotels app UI resource
   const hotelsResource = registerResource(
     {
@@ -155,6 +278,30 @@ const getServer = async () => {
     hotelsAppHtml,
   );
 
+  // Register the loyalty account UI resource
+  const loyaltyResource = registerResource(
+    {
+      name: "loyalty-app-template",
+      uri: "ui://loyalty/loyalty-app.html",
+      title: "Loyalty Account",
+      description: "Loyalty points balance, tier progress and points history",
+      mimeType: "text/html+mcp",
+    },
+    loyaltyAppHtml,
+  );
+
+  // Register the trip itinerary UI resource
+  const itineraryResource = registerResource(
+    {
+      name: "itinerary-app-template",
+      uri: "ui://trips/itinerary-app.html",
+      title: "Trip Itinerary",
+      description: "Day-by-day timeline of a trip's flights and hotel stays",
+      mimeType: "text/html+mcp",
+    },
+    itineraryAppHtml,
+  );
+
   // Register the trading app UI resource
   const tradingResource = registerResource(
     {
@@ -190,15 +337,44 @@ const getServer = async () => {
     {
       title: "Search Flights",
       description:
-        "Searches for available flights between two airports. Returns an interactive booking wizard UI.",
+        "Searches for available flights between two airports, including round trips and multi-city itineraries. Returns an interactive booking wizard UI.",
       inputSchema: {
         origin: z
           .string()
-          .describe("Origin airport code (e.g., JFK, LAX, LHR)"),
-        destination: z.string().describe("Destination airport code"),
+          .describe(
+            "Origin airport code, city or airport name (e.g., JFK, New York, Heathrow)",
+          ),
+        destination: z
+          .string()
+          .describe("Destination airport code, city or airport name"),
         departureDate: z
           .string()
           .describe("Departure date in YYYY-MM-DD format"),
+        returnDate: z
+          .string()
+          .optional()
+          .describe(
+            "Return date in YYYY-MM-DD format for a round trip (omit for one-way)",
+          ),
+        additionalLegs: z
+          .array(
+            z.object({
+              origin: z
+                .string()
+                .describe("Leg origin airport code or city"),
+              destination: z
+                .string()
+                .describe("Leg destination airport code or city"),
+              departureDate: z
+                .string()
+                .describe("Leg departure date in YYYY-MM-DD format"),
+            }),
+          )
+          .max(4)
+          .optional()
+          .describe(
+            "Further legs of a multi-city trip, flown in order after origin → destination",
+          ),
         passengers: z
           .number()
           .min(1)
@@ -208,6 +384,44 @@ const getServer = async () => {
           .enum(["economy", "business", "first"])
           .optional()
           .describe("Cabin class (default: economy)"),
+        maxStops: z
+          .number()
+          .min(0)
+          .max(2)
+          .optional()
+          .describe("Maximum number of stops (0 for nonstop only)"),
+        airlines: z
+          .array(z.string())
+          .optional()
+          .describe("Only include these airline codes (e.g., [\"BA\", \"AA\"])"),
+        minPrice: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Minimum price per passenger in USD"),
+        maxPrice: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Maximum price per passenger in USD"),
+        departAfter: z
+          .string()
+          .optional()
+          .describe("Earliest departure time in HH:MM (e.g., 12:00)"),
+        departBefore: z
+          .string()
+          .optional()
+          .describe("Latest departure time in HH:MM"),
+        sortBy: z
+          .enum(["price", "duration", "departure", "arrival"])
+          .optional()
+          .describe("Sort order for results (default: departure)"),
+        seed: z
+          .string()
+          .optional()
+          .describe(
+            "Seed for the mock data; the same seed and parameters return the same results (default: MOCK_DATA_SEED)",
+          ),
       },
       _meta: {
         [RESOURCE_URI_META_KEY]: flightsResource.uri,
@@ -217,42 +431,188 @@ const getServer = async () => {
       origin,
       destination,
       departureDate,
+      returnDate,
+      additionalLegs,
       passengers,
       cabinClass,
+      seed,
+      maxStops,
+      airlines,
+      minPrice,
+      maxPrice,
+      departAfter,
+      departBefore,
+      sortBy,
     }): Promise<CallToolResult> => {
       try {
+        const filters = {
+          maxStops,
+          airlines,
+          minPrice,
+          maxPrice,
+          departAfter,
+          departBefore,
+        };
+        const hasFilters = Object.values(filters).some(
+          (value) => value !== undefined,
+        );
+
         const search = searchFlights({
           origin,
           destination,
           departureDate,
+          returnDate,
+          additionalLegs,
           passengers,
           cabinClass: cabinClass || "economy",
+          seed,
+          filters: hasFilters ? filters : undefined,
+          sortBy,
         });
 
-        const flightSummary = search.flights
-          .slice(0, 3)
-          .map(
-            (f) =>
-              `${f.airline.code}${f.flightNumber.slice(2)} ${f.departureTime}-${f.arrivalTime} $${f.price}`,
-          )
-          .join(", ");
+        const legSummary = search.legs
+          .map((leg, index) => {
+            const flightSummary = leg.flights
+              .slice(0, 3)
+              .map(
+                (f) =>
+                  `${f.flightNumber} ${f.departureTime}-${f.arrivalTime}${f.arrivalDayOffset > 0 ? ` (+${f.arrivalDayOffset})` : ""} ${f.duration}${f.stops > 0 ? ` via ${f.layovers.map((l) => l.airport.code).join("/")}` : ""} from $${f.price}`,
+              )
+              .join(", ");
+            const filtered =
+              leg.flights.length < leg.unfilteredCount
+                ? ` of ${leg.unfilteredCount}, after filters`
+                : "";
+            return `Leg ${index + 1}: ${leg.origin} → ${leg.destination} on ${leg.date} (${leg.flights.length}${filtered} flights)\n${flightSummary ? `${flightSummary}...` : "No flights match the filters"}`;
+          })
+          .join("\n\n");
 
         return {
           content: [
             {
               type: "text",
-              text: `Found ${search.flights.length} flights from ${origin} to ${destination} on ${departureDate}:\n\n${flightSummary}...`,
+              text: `Found ${search.tripType} flights for ${passengers} passenger(s):\n\n${legSummary}`,
             },
           ],
           structuredContent: {
             search,
             summary: {
-              flightCount: search.flights.length,
-              origin,
-              destination,
+              tripType: search.tripType,
+              legCount: search.legs.length,
+              flightCount: search.legs.reduce(
+                (sum, leg) => sum + leg.flights.length,
+                0,
+              ),
+              origin: search.searchParams.origin,
+              destination: search.searchParams.destination,
               date: departureDate,
+              returnDate,
               passengers,
+              sortBy: search.searchParams.sortBy,
+              filters: search.searchParams.filters,
+            },
+          },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(error as Error).message}` },
+          ],
+          structuredContent: {
+            success: false,
+            error: (error as Error).message,
+            dateErrors: error instanceof DateValidationError ? error.errors : undefined,
+          },
+        };
+      }
+    },
+  );
+
+  // Register search-fare-calendar tool
+  server.registerTool(
+    "search-fare-calendar",
+    {
+      title: "Search Fare Calendar",
+      description:
+        "Finds the lowest fare per day for a route over a date window, to help pick the cheapest day to fly. Shows a fare calendar in the booking wizard UI.",
+      inputSchema: {
+        origin: z
+          .string()
+          .describe(
+            "Origin airport code, city or airport name (e.g., JFK, New York, Heathrow)",
+          ),
+        destination: z
+          .string()
+          .describe("Destination airport code, city or airport name"),
+        startDate: z
+          .string()
+          .describe("First day of the window in YYYY-MM-DD format"),
+        days: z
+          .number()
+          .min(1)
+          .max(31)
+          .optional()
+          .describe("Number of days to cover (1-31, default: 7)"),
+        passengers: z
+          .number()
+          .min(1)
+          .max(9)
+          .optional()
+          .describe("Number of passengers (1-9, default: 1)"),
+        cabinClass: z
+          .enum(["economy", "business", "first"])
+          .optional()
+          .describe("Cabin class (default: economy)"),
+        seed: z
+          .string()
+          .optional()
+          .describe(
+            "Seed for the mock data; the same seed and parameters return the same results (default: MOCK_DATA_SEED)",
+          ),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: flightsResource.uri,
+      },
+    },
+    async ({
+      origin,
+      destination,
+      startDate,
+      days,
+      passengers,
+      cabinClass,
+      seed,
+    }): Promise<CallToolResult> => {
+      try {
+        const calendar = searchFareCalendar({
+          origin,
+          destination,
+          startDate,
+          days,
+          passengers,
+          cabinClass: cabinClass || "economy",
+          seed,
+        });
+
+        const daySummary = calendar.days
+          .map(
+            (day) =>
+              `${day.date}: ${day.lowestFare === null ? "sold out" : `from $${day.lowestFare}`}`,
+          )
+          .join("\n");
+        const cheapest = calendar.cheapestDate
+          ? `Cheapest day: ${calendar.cheapestDate}`
+          : "No flights have enough seats in this window";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Lowest ${calendar.cabinClass} fares ${calendar.origin.code} → ${calendar.destination.code}:\n\n${daySummary}\n\n${cheapest}`,
             },
+          ],
+          structuredContent: {
+            calendar,
           },
         };
       } catch (error) {
@@ -263,6 +623,7 @@ const getServer = async () => {
           structuredContent: {
             success: false,
             error: (error as Error).message,
+            dateErrors: error instanceof DateValidationError ? error.errors : undefined,
           },
         };
       }
@@ -275,21 +636,30 @@ const getServer = async () => {
     {
       title: "Select Flight",
       description:
-        "Selects a flight from search results and returns the seat map",
+        "Selects a flight and fare for the leg of the search that offers it and returns the live seat map, reflecting booked and held seats",
       inputSchema: {
         searchId: z.string().describe("The search session ID"),
         flightId: z.string().describe("The flight ID to select"),
+        fareBucket: z
+          .enum(["basic", "standard", "flex"])
+          .optional()
+          .describe(
+            "Fare to book: basic (cheapest, restricted), standard or flex (fully refundable). Defaults to the cheapest fare on sale",
+          ),
       },
     },
-    async ({ searchId, flightId }): Promise<CallToolResult> => {
-      const result = selectFlight(searchId, flightId);
+    async ({ searchId, flightId, fareBucket }): Promise<CallToolResult> => {
+      const result = selectFlight(searchId, flightId, fareBucket);
 
       if (!result) {
+        const error = fareBucket
+          ? `Flight, search or ${fareBucket} fare not found`
+          : "Flight or search not found";
         return {
-          content: [{ type: "text", text: "Flight or search not found." }],
+          content: [{ type: "text", text: `${error}.` }],
           structuredContent: {
             success: false,
-            error: "Flight or search not found",
+            error,
           },
         };
       }
@@ -298,12 +668,14 @@ const getServer = async () => {
         content: [
           {
             type: "text",
-            text: `Selected ${result.flight.airline.name} ${result.flight.flightNumber} (${result.flight.departureTime}-${result.flight.arrivalTime}). Please choose your seats.`,
+            text: `Selected ${result.flight.airline.name} ${result.flight.flightNumber} (${result.flight.departureTime}-${result.flight.arrivalTime}) on ${result.fare.name} at $${result.fare.price} per person (${describeFareRules(result.fare)}). Please choose your seats.`,
           },
         ],
         structuredContent: {
           success: true,
+          legIndex: result.legIndex,
           flight: result.flight,
+          fare: result.fare,
           seatMap: result.seatMap,
         },
       };
@@ -315,10 +687,11 @@ const getServer = async () => {
     "select-seats",
     {
       title: "Select Seats",
-      description: "Selects seats for the chosen flight",
+      description:
+        "Selects seats for the chosen flight on one leg and holds them for this search session for 10 minutes",
       inputSchema: {
         searchId: z.string().describe("The search session ID"),
-        flightId: z.string().describe("The flight ID"),
+        flightId: z.string().describe("The selected flight ID for the leg"),
         seats: z
           .array(z.string())
           .describe("Array of seat IDs (e.g., ['12A', '12B'])"),
@@ -333,35 +706,1161 @@ const getServer = async () => {
           success: result.success,
           selectedSeats: result.selectedSeats,
           totalSeatFee: result.totalSeatFee,
+          holdExpiresAt: result.holdExpiresAt,
+          error: result.success ? undefined : result.message,
+        },
+      };
+    },
+  );
+
+  // Register select-extras tool (helper for UI)
+  server.registerTool(
+    "select-extras",
+    {
+      title: "Select Extras",
+      description:
+        "Chooses checked bags, meals and priority boarding per passenger, plus travel insurance, for the search session. Prices depend on the cabin class and apply on every flight.",
+      inputSchema: {
+        searchId: z.string().describe("The search session ID"),
+        passengers: z
+          .array(
+            z.object({
+              checkedBags: z
+                .number()
+                .min(0)
+                .max(3)
+                .optional()
+                .describe("Number of checked bags (0-3)"),
+              meal: z
+                .enum([
+                  "none",
+                  "standard",
+                  "vegetarian",
+                  "vegan",
+                  "halal",
+                  "kosher",
+                  "gluten-free",
+                ])
+                .optional()
+                .describe("Meal preference (default: none)"),
+              priorityBoarding: z
+                .boolean()
+                .optional()
+                .describe("Board before general boarding"),
+            }),
+          )
+          .optional()
+          .describe("Extras per passenger, in passenger order"),
+        insurance: z
+          .boolean()
+          .optional()
+          .describe("Add travel insurance, which makes the fare fully refundable"),
+      },
+    },
+    async ({ searchId, passengers, insurance }): Promise<CallToolResult> => {
+      const result = selectExtras(searchId, { passengers, insurance });
+
+      const lines = result.priceLines
+        ?.map((line) => `${line.label}: $${line.amount}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: lines ? `${result.message}\n${lines}` : result.message,
+          },
+        ],
+        structuredContent: {
+          success: result.success,
+          extras: result.extras,
+          priceLines: result.priceLines,
+          extrasTotal: result.extrasTotal,
           error: result.success ? undefined : result.message,
         },
       };
     },
   );
 
-  // Register book-flight tool (helper for UI)
+  // Register book-flight tool (helper for UI)
+  server.registerTool(
+    "book-flight",
+    {
+      title: "Book Flight",
+      description:
+        "Completes the flight booking with passenger details. A promo code applied with apply-promo is checked again and taken off the total. The booking earns loyalty points for the first passenger.",
+      inputSchema: {
+        searchId: z.string().describe("The search session ID"),
+        passengers: z
+          .array(z.object(travellerFields))
+          .describe("Passenger information"),
+        redeemPoints: redeemPointsSchema,
+      },
+    },
+    async ({ searchId, passengers, redeemPoints }): Promise<CallToolResult> => {
+      const result = createBooking(searchId, passengers, { redeemPoints });
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: {
+            success: false,
+            error: result.message,
+            fieldErrors: result.fieldErrors,
+            priceChanges: result.priceChanges,
+            promoError: result.promoError,
+          },
+        };
+      }
+
+      const legSummary = result.booking.legs
+        .map(
+          (leg) =>
+            `${leg.flight.airline.name} ${leg.flight.flightNumber}: ${leg.flight.origin.code} → ${leg.flight.destination.code} on ${leg.flight.departureDate}, ${leg.fare.name} (${describeSeats(leg.seats)})`,
+        )
+        .join("\n");
+      const priceSummary = result.booking.priceBreakdown
+        .map((line) => `${line.label}: $${line.amount}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${result.message}\n\n${legSummary}\n\n${priceSummary}\nTotal: $${result.booking.totalPrice.toFixed(2)}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          priceChanges: result.priceChanges,
+        },
+      };
+    },
+  );
+
+  // Seat maps for every leg of a booking, for the manage booking view
+  const bookingSeatMaps = (booking: Booking) =>
+    booking.legs.map((_, index) => getBookingSeatMap(booking, index));
+
+  // Live status of every leg of a booking, with rebooking options for cancelled legs
+  const bookingFlightStatuses = (booking: Booking) => ({
+    flightStatuses: booking.legs.map((leg) => getFlightStatus(leg.flight)),
+    rebookingOptions: booking.legs.map((leg, index) =>
+      getFlightStatus(leg.flight).status === "cancelled"
+        ? getRebookingOptions(booking, index)
+        : [],
+    ),
+  });
+
+  // Register get-flight-booking tool (opens the manage booking UI)
+  server.registerTool(
+    "get-flight-booking",
+    {
+      title: "Get Flight Booking",
+      description:
+        "Retrieves a flight booking by confirmation number. Returns an interactive manage booking UI for changing seats, passengers or cancelling.",
+      inputSchema: {
+        confirmationNumber: z
+          .string()
+          .describe("The booking confirmation number (e.g., AB12CD)"),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: flightsResource.uri,
+      },
+    },
+    async ({ confirmationNumber }): Promise<CallToolResult> => {
+      const booking = getBooking(confirmationNumber);
+
+      if (!booking) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Booking ${confirmationNumber} not found.`,
+            },
+          ],
+          structuredContent: {
+            success: false,
+            error: `Booking ${confirmationNumber} not found`,
+          },
+        };
+      }
+
+      const statusDetails = bookingFlightStatuses(booking);
+      const legSummary = booking.legs
+        .map((leg, index) => {
+          const status = statusDetails.flightStatuses[index];
+          const statusNote =
+            status.status === "cancelled"
+              ? " - CANCELLED, rebooking available"
+              : status.status === "delayed"
+                ? ` - delayed ${status.delayMinutes} min, now ${status.estimatedDepartureTime}`
+                : "";
+          return `${leg.flight.flightNumber}: ${leg.flight.origin.code} → ${leg.flight.destination.code} on ${leg.flight.departureDate} ${leg.flight.departureTime} (${describeSeats(leg.seats)})${statusNote}`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Booking ${booking.confirmationNumber} (${booking.status})\n\n${legSummary}\nPassengers: ${booking.passengers.map((p) => p.name).join(", ")}\nTotal: $${booking.totalPrice.toFixed(2)}\nLoyalty: ${booking.loyalty.pointsEarned} points for member ${booking.loyalty.memberId}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking,
+          seatMaps: bookingSeatMaps(booking),
+          ...statusDetails,
+        },
+      };
+    },
+  );
+
+  // Register change-flight-seats tool (helper for UI)
+  server.registerTool(
+    "change-flight-seats",
+    {
+      title: "Change Flight Seats",
+      description:
+        "Changes the seats on one leg of a confirmed booking. The seat fee difference is added to or taken off the total.",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        legIndex: z
+          .number()
+          .min(0)
+          .describe("Zero-based index of the leg to change (0 for one-way)"),
+        seats: z
+          .array(z.string())
+          .describe("New seat IDs, one per passenger in passenger order"),
+      },
+    },
+    async ({ confirmationNumber, legIndex, seats }): Promise<CallToolResult> => {
+      const result = changeBookingSeats(confirmationNumber, legIndex, seats);
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${result.message}. Fee difference: $${result.feeDifference!.toFixed(2)}. New total: $${result.booking.totalPrice.toFixed(2)}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          feeDifference: result.feeDifference,
+          seatMaps: bookingSeatMaps(result.booking),
+          ...bookingFlightStatuses(result.booking),
+        },
+      };
+    },
+  );
+
+  // Register update-passenger tool (helper for UI)
+  server.registerTool(
+    "update-passenger",
+    {
+      title: "Update Passenger",
+      description:
+        "Updates the name, contact details, date of birth or passport of a passenger on a confirmed booking",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        passengerIndex: z
+          .number()
+          .min(0)
+          .describe("Zero-based index of the passenger to update"),
+        updates: z
+          .object({
+            name: z.string().optional(),
+            email: z.string().optional(),
+            phone: z.string().optional(),
+            dateOfBirth: z.string().optional(),
+            passport: passportSchema.optional(),
+          })
+          .describe("Fields to update"),
+      },
+    },
+    async ({
+      confirmationNumber,
+      passengerIndex,
+      updates,
+    }): Promise<CallToolResult> => {
+      const result = updatePassenger(confirmationNumber, passengerIndex, updates);
+
+      if (!result.success) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: {
+            success: false,
+            error: result.message,
+            fieldErrors: result.fieldErrors,
+          },
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+        },
+      };
+    },
+  );
+
+  // Register cancel-flight-booking tool (helper for UI)
+  server.registerTool(
+    "cancel-flight-booking",
+    {
+      title: "Cancel Flight Booking",
+      description:
+        "Cancels a confirmed flight booking, releases its seats and returns the refund due under the fare rules. Flights the airline cancelled are refunded in full",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+      },
+    },
+    async ({ confirmationNumber }): Promise<CallToolResult> => {
+      const booking = getBooking(confirmationNumber);
+      const result = cancelBooking(confirmationNumber, {
+        cancelledLegs: booking ? getCancelledLegs(booking) : [],
+      });
+
+      if (!result.success) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          refundAmount: result.refundAmount,
+        },
+      };
+    },
+  );
+
+  // Register check-in tool (opens the boarding pass UI)
+  server.registerTool(
+    "check-in",
+    {
+      title: "Check In",
+      description:
+        "Checks every passenger on a booking in for one flight and returns boarding passes. Check-in opens 24 hours before departure and closes 45 minutes before. Passengers without a seat are assigned one.",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        legIndex: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Flight of the booking to check in for, 0-based (defaults to the next flight still open for check-in)",
+          ),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: boardingPassResource.uri,
+      },
+    },
+    async ({ confirmationNumber, legIndex }): Promise<CallToolResult> => {
+      const result = checkIn(confirmationNumber, legIndex);
+
+      if (!result.success || !result.boardingPasses) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: {
+            success: false,
+            error: result.message,
+            opensAt: result.opensAt,
+          },
+        };
+      }
+
+      const passSummary = result.boardingPasses
+        .map(
+          (pass) =>
+            `${pass.passengerName}: seat ${pass.seat}, group ${pass.boardingGroup}`,
+        )
+        .join("\n");
+      const assigned =
+        result.assignedSeats && result.assignedSeats.length > 0
+          ? `\nAssigned seats: ${result.assignedSeats.join(", ")}`
+          : "";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${result.message}\n\n${passSummary}${assigned}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          boardingPasses: result.boardingPasses,
+          assignedSeats: result.assignedSeats,
+        },
+      };
+    },
+  );
+
+  // Register simulate-disruption tool (opens the manage booking UI)
+  server.registerTool(
+    "simulate-disruption",
+    {
+      title: "Simulate Flight Disruption",
+      description:
+        "Simulates a delay, cancellation or gate change on a booked flight, for demonstrating disruption handling. Without a type one is picked at random. Returns the manage booking UI with the new flight status; a cancellation also lists alternative flights the booking can be moved to for free.",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        legIndex: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Flight of the booking to disrupt, 0-based (default 0)"),
+        type: z
+          .enum(["delay", "cancellation", "gate-change"])
+          .optional()
+          .describe("Disruption to simulate (random when omitted)"),
+        delayMinutes: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Minutes to add for a delay (random 30-240 when omitted)"),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: flightsResource.uri,
+      },
+    },
+    async ({
+      confirmationNumber,
+      legIndex,
+      type,
+      delayMinutes,
+    }): Promise<CallToolResult> => {
+      const result = simulateDisruption(confirmationNumber, {
+        legIndex,
+        type,
+        delayMinutes,
+      });
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
+        };
+      }
+
+      const options = (result.rebookingOptions ?? [])
+        .map(
+          (f) =>
+            `${f.id}: ${f.flightNumber} departing ${f.departureTime} on ${f.departureDate}`,
+        )
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: options
+              ? `${result.message}\n\nRebooking options:\n${options}`
+              : result.message,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          seatMaps: bookingSeatMaps(result.booking),
+          ...bookingFlightStatuses(result.booking),
+        },
+      };
+    },
+  );
+
+  // Register rebook-flight tool (helper for UI)
+  server.registerTool(
+    "rebook-flight",
+    {
+      title: "Rebook Flight",
+      description:
+        "Moves a cancelled flight on a booking onto one of its rebooking options at no cost. Seats on the new flight are assigned automatically.",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        legIndex: z
+          .number()
+          .int()
+          .min(0)
+          .describe("Zero-based index of the cancelled leg"),
+        flightId: z
+          .string()
+          .describe("ID of the replacement flight from the rebooking options"),
+      },
+    },
+    async ({ confirmationNumber, legIndex, flightId }): Promise<CallToolResult> => {
+      const result = rebookFlight(confirmationNumber, legIndex, flightId);
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          seatMaps: bookingSeatMaps(result.booking),
+          ...bookingFlightStatuses(result.booking),
+        },
+      };
+    },
+  );
+
+  // ============================================
+  // TRAVELLER PROFILE TOOLS
+  // ============================================
+
+  // Register save-traveller-profile tool (helper for UI)
+  server.registerTool(
+    "save-traveller-profile",
+    {
+      title: "Save Traveller Profile",
+      description:
+        "Saves a traveller's details so they can be selected on later bookings. Pass an id to update an existing profile.",
+      inputSchema: {
+        id: z
+          .string()
+          .optional()
+          .describe("Profile ID to update (omit to create a new profile)"),
+        ...travellerFields,
+      },
+    },
+    async (details): Promise<CallToolResult> => {
+      const result = saveTravellerProfile(details);
+
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: result.success,
+          profile: result.profile,
+          error: result.success ? undefined : result.message,
+          fieldErrors: result.fieldErrors,
+        },
+      };
+    },
+  );
+
+  // Register list-traveller-profiles tool (helper for UI)
+  server.registerTool(
+    "list-traveller-profiles",
+    {
+      title: "List Traveller Profiles",
+      description: "Lists saved traveller profiles, most recently updated first",
+      inputSchema: {},
+    },
+    async (): Promise<CallToolResult> => {
+      const profiles = listTravellerProfiles();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              profiles.length > 0
+                ? `Saved travellers:\n${profiles.map((p) => `- ${p.name} (${p.email})`).join("\n")}`
+                : "No saved travellers yet",
+          },
+        ],
+        structuredContent: {
+          success: true,
+          profiles,
+        },
+      };
+    },
+  );
+
+  // Register delete-traveller-profile tool (helper for UI)
+  server.registerTool(
+    "delete-traveller-profile",
+    {
+      title: "Delete Traveller Profile",
+      description: "Deletes a saved traveller profile",
+      inputSchema: {
+        id: z.string().describe("The profile ID"),
+      },
+    },
+    async ({ id }): Promise<CallToolResult> => {
+      const result = deleteTravellerProfile(id);
+
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: result.success,
+          error: result.success ? undefined : result.message,
+        },
+      };
+    },
+  );
+
+  // ============================================
+  // HOTEL BOOKING TOOLS
+  // ============================================
+
+  // Register search-hotels tool (main tool with UI)
+  server.registerTool(
+    "search-hotels",
+    {
+      title: "Search Hotels",
+      description:
+        "Searches for available hotels in a city. Room types already booked out on any night of the stay are shown as sold out. Returns an interactive booking wizard UI.",
+      inputSchema: {
+        city: z.string().describe("City name (e.g., Paris, New York, Tokyo)"),
+        checkIn: z.string().describe("Check-in date in YYYY-MM-DD format"),
+        checkOut: z.string().describe(`Check-out date in YYYY-MM-DD format, at most ${MAX_STAY_NIGHTS} nights after check-in`),
+        guests: z.number().min(1).max(6).describe("Number of guests (1-6)"),
+        rooms: z
+          .number()
+          .min(1)
+          .max(4)
+          .optional()
+          .describe("Number of rooms needed (default: 1)"),
+        minStars: z
+          .number()
+          .int()
+          .min(1)
+          .max(5)
+          .optional()
+          .describe("Minimum star rating (1-5)"),
+        amenities: z
+          .array(
+            z.enum([
+              "wifi",
+              "pool",
+              "gym",
+              "spa",
+              "restaurant",
+              "parking",
+              "airConditioning",
+              "roomService",
+              "minibar",
+              "balcony",
+            ]),
+          )
+          .optional()
+          .describe("Only include hotels with every one of these amenities"),
+        minPrice: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Minimum average nightly rate in USD"),
+        maxPrice: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Maximum average nightly rate in USD"),
+        neighborhoods: z
+          .array(z.string())
+          .optional()
+          .describe("Only include hotels in these neighbourhoods (e.g., [\"Montmartre\"])"),
+        sortBy: z
+          .enum(["rating", "price", "stars", "reviews"])
+          .optional()
+          .describe("Sort order for results (default: rating)"),
+        seed: z
+          .string()
+          .optional()
+          .describe(
+            "Seed for the mock data; the same seed and parameters return the same results (default: MOCK_DATA_SEED)",
+          ),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: hotelsResource.uri,
+      },
+    },
+    async ({
+      city,
+      checkIn,
+      checkOut,
+      guests,
+      rooms,
+      seed,
+      minStars,
+      amenities,
+      minPrice,
+      maxPrice,
+      neighborhoods,
+      sortBy,
+    }): Promise<CallToolResult> => {
+      try {
+        const filters = {
+          minStars,
+          amenities,
+          minPrice,
+          maxPrice,
+          neighborhoods,
+        };
+        const hasFilters = Object.values(filters).some(
+          (value) => value !== undefined,
+        );
+
+        const search = searchHotels({
+          city,
+          checkIn,
+          checkOut,
+          guests,
+          rooms: rooms || 1,
+          seed,
+          filters: hasFilters ? filters : undefined,
+          sortBy,
+        });
+        const neighborhoodGroups = groupByNeighborhood(search.hotels);
+
+        const hotelSummary = search.hotels
+          .slice(0, 3)
+          .map(
+            (h) =>
+              `${"★".repeat(h.stars)} ${h.name} (${h.rating}/10) ${h.soldOut ? "sold out for these dates" : `from $${h.pricePerNight}/night`}`,
+          )
+          .join("\n");
+        const areaSummary = neighborhoodGroups
+          .map(
+            (g) =>
+              `${g.neighborhood} (${g.hotelIds.length}${g.lowestPrice !== null ? `, from $${g.lowestPrice}` : ", sold out"})`,
+          )
+          .join("; ");
+        const filtered =
+          search.hotels.length < search.unfilteredCount
+            ? ` of ${search.unfilteredCount}, after filters,`
+            : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${search.hotels.length}${filtered} hotels in ${search.searchParams.city} for ${search.searchParams.nights} night(s):\n\n${hotelSummary || "No hotels match the filters"}${areaSummary ? `\n\nBy neighbourhood: ${areaSummary}` : ""}`,
+            },
+          ],
+          structuredContent: {
+            search,
+            summary: {
+              hotelCount: search.hotels.length,
+              city: search.searchParams.city,
+              checkIn,
+              checkOut,
+              nights: search.searchParams.nights,
+              guests,
+              sortBy: search.searchParams.sortBy,
+              filters: search.searchParams.filters,
+              neighborhoods: neighborhoodGroups,
+            },
+          },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(error as Error).message}` },
+          ],
+          structuredContent: {
+            success: false,
+            error: (error as Error).message,
+            dateErrors: error instanceof DateValidationError ? error.errors : undefined,
+          },
+        };
+      }
+    },
+  );
+
+  // Register select-hotel tool (helper for UI)
+  server.registerTool(
+    "select-hotel",
+    {
+      title: "Select Hotel",
+      description:
+        "Selects a hotel from search results and returns available rooms",
+      inputSchema: {
+        searchId: z.string().describe("The search session ID"),
+        hotelId: z.string().describe("The hotel ID to select"),
+      },
+    },
+    async ({ searchId, hotelId }): Promise<CallToolResult> => {
+      const result = selectHotel(searchId, hotelId);
+
+      if (!result) {
+        return {
+          content: [{ type: "text", text: "Hotel or search not found." }],
+          structuredContent: {
+            success: false,
+            error: "Hotel or search not found",
+          },
+        };
+      }
+
+      const roomSummary = result.rooms
+        .map(
+          (r) =>
+            `${r.name}: ${r.available > 0 ? `$${r.pricePerNight}/night, ${r.available} left` : "sold out"}`,
+        )
+        .join(", ");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Selected ${result.hotel.name} (${"★".repeat(result.hotel.stars)}). Available rooms: ${roomSummary}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          hotel: result.hotel,
+          rooms: result.rooms,
+        },
+      };
+    },
+  );
+
+  // Register select-room tool (helper for UI)
+  server.registerTool(
+    "select-room",
+    {
+      title: "Select Room",
+      description:
+        "Selects the rooms for the booking, which can mix room types (e.g. one suite and one standard room). Together the rooms must sleep every guest. Returns the price of each night (weekend and seasonal rates) and any length-of-stay discount per room type.",
+      inputSchema: {
+        searchId: z.string().describe("The search session ID"),
+        hotelId: z.string().describe("The hotel ID"),
+        rooms: roomSelectionsSchema.describe("Room types to book, at most 4 rooms in total"),
+      },
+    },
+    async ({ searchId, hotelId, rooms }): Promise<CallToolResult> => {
+      const result = selectRoom(searchId, hotelId, rooms);
+
+      const rateSummary = (result.rooms ?? [])
+        .map(({ room, quantity, priceBreakdown: breakdown, totalPrice }) =>
+          `${quantity}x ${room.name}:\n` +
+          breakdown.nights
+            .map(
+              (n) =>
+                `${n.date}: $${n.price}${n.season ? ` (${n.season})` : ""}${n.weekend ? " (weekend)" : ""}`,
+            )
+            .join("\n") +
+          (breakdown.discount > 0
+            ? `\nLength-of-stay discount (${Math.round(breakdown.discountPercent * 100)}%): -$${breakdown.discount}`
+            : "") +
+          `\nSubtotal: $${totalPrice}` +
+          `\nCancellation: ${room.cancellationPolicy.description}`,
+        )
+        .join("\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: rateSummary
+              ? `${result.message}\n\n${rateSummary}\n\nTotal: $${result.totalPrice}`
+              : result.message,
+          },
+        ],
+        structuredContent: {
+          success: result.success,
+          rooms: result.rooms,
+          totalPrice: result.totalPrice,
+          error: result.success ? undefined : result.message,
+        },
+      };
+    },
+  );
+
+  // Hotel, room, dates and price of a booking, for tool text
+  const describeHotelBooking = (booking: HotelBooking) =>
+    `Hotel: ${booking.hotel.name}\n` +
+    booking.rooms
+      .map(
+        (line) =>
+          `Room: ${line.quantity}x ${line.room.name}${line.upgradedFrom ? ` (upgraded from ${line.upgradedFrom.name})` : ""} for ${line.guests.map((g) => g.name).join(", ")} ($${line.totalPrice.toFixed(2)}; ${line.room.cancellationPolicy.description})`,
+      )
+      .join("\n") +
+    `\nDates: ${booking.checkIn} to ${booking.checkOut} (${booking.nights} nights)` +
+    (booking.promo ? `\nPromo ${booking.promo.code}: -$${booking.promo.discount.toFixed(2)}` : "") +
+    (booking.loyalty.pointsRedeemed > 0
+      ? `\nPoints redeemed: ${booking.loyalty.pointsRedeemed} (-$${booking.loyalty.pointsDiscount.toFixed(2)})`
+      : "") +
+    `\nTotal: $${booking.totalPrice.toFixed(2)}\nLoyalty: ${booking.loyalty.pointsEarned} points for member ${booking.loyalty.memberId}`;
+
+  // Register book-hotel tool (helper for UI)
+  server.registerTool(
+    "book-hotel",
+    {
+      title: "Book Hotel",
+      description:
+        "Completes the hotel booking with guest details. With several room types, give each guest the roomId they stay in; every room type needs at least one guest. A promo code applied with apply-promo is checked again and taken off the total. The booking earns loyalty points for the first guest.",
+      inputSchema: {
+        searchId: z.string().describe("The search session ID"),
+        guests: z
+          .array(
+            z.object({
+              name: z.string().describe("Guest full name"),
+              email: z.string().describe("Guest email"),
+              roomId: z
+                .string()
+                .optional()
+                .describe("Room type ID the guest stays in (default: the next room type without a guest)"),
+            }),
+          )
+          .describe("Guest information"),
+        specialRequests: z
+          .string()
+          .optional()
+          .describe("Special requests for the hotel"),
+        redeemPoints: redeemPointsSchema,
+      },
+    },
+    async ({ searchId, guests, specialRequests, redeemPoints }): Promise<CallToolResult> => {
+      const result = createHotelBooking(searchId, guests, specialRequests, { redeemPoints });
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message, promoError: result.promoError },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${result.message}\n\n${describeHotelBooking(result.booking)}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+        },
+      };
+    },
+  );
+
+  // Register get-hotel tool
+  server.registerTool(
+    "get-hotel",
+    {
+      title: "Get Hotel",
+      description:
+        "Returns full details of a hotel by its ID, including its room types, without running a search. Hotel and room IDs stay the same across searches, so a hotel from an earlier search or booking can be looked up again.",
+      inputSchema: {
+        hotelId: z
+          .string()
+          .describe("The hotel ID (e.g., hotel-le-grand-paris)"),
+        checkIn: z
+          .string()
+          .optional()
+          .describe("Check-in date in YYYY-MM-DD format for room availability (default: today)"),
+        checkOut: z
+          .string()
+          .optional()
+          .describe("Check-out date in YYYY-MM-DD format (default: the day after check-in)"),
+        seed: z
+          .string()
+          .optional()
+          .describe("Seed for the mock data (default: MOCK_DATA_SEED)"),
+      },
+    },
+    async ({ hotelId, checkIn, checkOut, seed }): Promise<CallToolResult> => {
+      try {
+        const hotel = getHotel(hotelId, { checkIn, checkOut, seed });
+
+        if (!hotel) {
+          return {
+            content: [{ type: "text", text: `Hotel ${hotelId} not found.` }],
+            structuredContent: {
+              success: false,
+              error: `Hotel ${hotelId} not found`,
+            },
+          };
+        }
+
+        const roomSummary = hotel.rooms
+          .map(
+            (r) =>
+              `${r.id}: ${r.name}, ${r.bedType} bed, up to ${r.maxGuests} guests, $${r.pricePerNight}/night, ${r.available} of ${r.totalRooms} free`,
+          )
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${hotel.name} (${"★".repeat(hotel.stars)}, ${hotel.rating}/10 from ${hotel.reviewCount} reviews)\n${hotel.address}, ${hotel.neighborhood}, ${hotel.city}\nAmenities: ${hotel.amenities.join(", ")}\n\nRooms:\n${roomSummary}`,
+            },
+          ],
+          structuredContent: {
+            success: true,
+            hotel,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(error as Error).message}` },
+          ],
+          structuredContent: {
+            success: false,
+            error: (error as Error).message,
+            dateErrors: error instanceof DateValidationError ? error.errors : undefined,
+          },
+        };
+      }
+    },
+  );
+
+  // Register get-hotel-booking tool
+  server.registerTool(
+    "get-hotel-booking",
+    {
+      title: "Get Hotel Booking",
+      description:
+        "Retrieves a hotel booking by confirmation number, with its status, cancellation policy and the refund due if cancelled today",
+      inputSchema: {
+        confirmationNumber: z
+          .string()
+          .describe("The booking confirmation number (e.g., HTLAB12CD)"),
+      },
+    },
+    async ({ confirmationNumber }): Promise<CallToolResult> => {
+      const booking = getHotelBooking(confirmationNumber);
+
+      if (!booking) {
+        return {
+          content: [
+            { type: "text", text: `Booking ${confirmationNumber} not found.` },
+          ],
+          structuredContent: {
+            success: false,
+            error: `Booking ${confirmationNumber} not found`,
+          },
+        };
+      }
+
+      const refundAmount =
+        booking.status === "confirmed" ? calculateHotelRefund(booking) : undefined;
+      const refundNote =
+        refundAmount !== undefined
+          ? `\nRefund if cancelled today: $${refundAmount.toFixed(2)}`
+          : `\nRefunded: $${(booking.refundAmount ?? 0).toFixed(2)}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Booking ${booking.confirmationNumber} (${booking.status})\n\n${describeHotelBooking(booking)}${refundNote}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking,
+          refundAmount,
+        },
+      };
+    },
+  );
+
+  // Register modify-hotel-booking tool
+  server.registerTool(
+    "modify-hotel-booking",
+    {
+      title: "Modify Hotel Booking",
+      description:
+        "Changes the dates or rooms of a confirmed hotel booking. The stay is repriced and the price difference returned; rooms no longer needed go back on sale.",
+      inputSchema: {
+        confirmationNumber: z.string().describe("The booking confirmation number"),
+        checkIn: z
+          .string()
+          .optional()
+          .describe("New check-in date in YYYY-MM-DD format"),
+        checkOut: z
+          .string()
+          .optional()
+          .describe("New check-out date in YYYY-MM-DD format"),
+        rooms: roomSelectionsSchema
+          .optional()
+          .describe("New rooms at the same hotel, replacing every room on the booking"),
+      },
+    },
+    async ({
+      confirmationNumber,
+      checkIn,
+      checkOut,
+      rooms,
+    }): Promise<CallToolResult> => {
+      const result = modifyHotelBooking(confirmationNumber, {
+        checkIn,
+        checkOut,
+        rooms,
+      });
+
+      if (!result.success || !result.booking) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: {
+            success: false,
+            error: result.message,
+            dateErrors: result.dateErrors,
+          },
+        };
+      }
+
+      const difference = result.priceDifference!;
+      const differenceNote =
+        difference > 0
+          ? `Additional charge: $${difference.toFixed(2)}`
+          : difference < 0
+            ? `Refund: $${(-difference).toFixed(2)}`
+            : "No change in price";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${result.message}. ${differenceNote}. New total: $${result.booking.totalPrice.toFixed(2)}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          booking: result.booking,
+          priceDifference: result.priceDifference,
+        },
+      };
+    },
+  );
+
+  // Register cancel-hotel-booking tool
   server.registerTool(
-    "book-flight",
+    "cancel-hotel-booking",
     {
-      title: "Book Flight",
-      description: "Completes the flight booking with passenger details",
+      title: "Cancel Hotel Booking",
+      description:
+        "Cancels a confirmed hotel booking, returns its rooms to inventory and returns the refund due under the room rate's cancellation policy",
       inputSchema: {
-        searchId: z.string().describe("The search session ID"),
-        passengers: z
-          .array(
-            z.object({
-              name: z.string().describe("Passenger full name"),
-              email: z.string().describe("Passenger email"),
-              phone: z.string().describe("Passenger phone number"),
-            }),
-          )
-          .describe("Passenger information"),
+        confirmationNumber: z.string().describe("The booking confirmation number"),
       },
     },
-    async ({ searchId, passengers }): Promise<CallToolResult> => {
-      const result = createBooking(searchId, passengers);
+    async ({ confirmationNumber }): Promise<CallToolResult> => {
+      const result = cancelHotelBooking(confirmationNumber);
 
-      if (!result.success || !result.booking) {
+      if (!result.success) {
         return {
           content: [{ type: "text", text: result.message }],
           structuredContent: { success: false, error: result.message },
@@ -369,88 +1868,72 @@ const getServer = async () => {
       }
 
       return {
-        content: [
-          {
-            type: "text",
-            text: `Booking confirmed! Confirmation: ${result.booking.confirmationNumber}\n\nFlight: ${result.booking.flight.airline.name} ${result.booking.flight.flightNumber}\nRoute: ${result.booking.flight.origin.code} → ${result.booking.flight.destination.code}\nSeats: ${result.booking.seats.join(", ")}\nTotal: $${result.booking.totalPrice.toFixed(2)}`,
-          },
-        ],
+        content: [{ type: "text", text: result.message }],
         structuredContent: {
           success: true,
           booking: result.booking,
+          refundAmount: result.refundAmount,
         },
       };
     },
   );
 
-  // ============================================
-  // HOTEL BOOKING TOOLS
-  // ============================================
-
-  // Register search-hotels tool (main tool with UI)
+  // Register get-hotel-reviews tool
   server.registerTool(
-    "search-hotels",
+    "get-hotel-reviews",
     {
-      title: "Search Hotels",
+      title: "Get Hotel Reviews",
       description:
-        "Searches for available hotels in a city. Returns an interactive booking wizard UI.",
+        "Returns a page of guest reviews for a hotel, with cleanliness, location and service scores, and the hotel's average scores",
       inputSchema: {
-        city: z.string().describe("City name (e.g., Paris, New York, Tokyo)"),
-        checkIn: z.string().describe("Check-in date in YYYY-MM-DD format"),
-        checkOut: z.string().describe("Check-out date in YYYY-MM-DD format"),
-        guests: z.number().min(1).max(6).describe("Number of guests (1-6)"),
-        rooms: z
+        hotelId: z
+          .string()
+          .describe("The hotel ID (e.g., hotel-le-grand-paris)"),
+        page: z.number().min(1).optional().describe("Page number, starting at 1 (default: 1)"),
+        pageSize: z
           .number()
           .min(1)
-          .max(4)
+          .max(20)
           .optional()
-          .describe("Number of rooms needed (default: 1)"),
-      },
-      _meta: {
-        [RESOURCE_URI_META_KEY]: hotelsResource.uri,
+          .describe("Reviews per page (default: 5)"),
+        sortBy: z
+          .enum(["newest", "highest", "lowest"])
+          .optional()
+          .describe("Review order (default: newest)"),
       },
     },
-    async ({
-      city,
-      checkIn,
-      checkOut,
-      guests,
-      rooms,
-    }): Promise<CallToolResult> => {
+    async ({ hotelId, page, pageSize, sortBy }): Promise<CallToolResult> => {
       try {
-        const search = searchHotels({
-          city,
-          checkIn,
-          checkOut,
-          guests,
-          rooms: rooms || 1,
-        });
+        const result = getHotelReviews(hotelId, { page, pageSize, sortBy });
+
+        if (!result) {
+          return {
+            content: [{ type: "text", text: `Hotel ${hotelId} not found.` }],
+            structuredContent: {
+              success: false,
+              error: `Hotel ${hotelId} not found`,
+            },
+          };
+        }
 
-        const hotelSummary = search.hotels
-          .slice(0, 3)
+        const { averageScores } = result.summary;
+        const reviewSummary = result.reviews
           .map(
-            (h) =>
-              `${"★".repeat(h.stars)} ${h.name} (${h.rating}/10) from $${h.pricePerNight}/night`,
+            (r) =>
+              `${r.overall}/10 "${r.title}" - ${r.guestName} (${r.travellerType}, stayed ${r.stayDate.slice(0, 7)})\n${r.text}`,
           )
-          .join("\n");
+          .join("\n\n");
 
         return {
           content: [
             {
               type: "text",
-              text: `Found ${search.hotels.length} hotels in ${city} for ${search.searchParams.nights} night(s):\n\n${hotelSummary}`,
+              text: `${result.hotelName}: ${result.summary.rating}/10 from ${result.summary.reviewCount} reviews (cleanliness ${averageScores.cleanliness}, location ${averageScores.location}, service ${averageScores.service})\nPage ${result.page} of ${result.totalPages}, ${result.sortBy} first\n\n${reviewSummary}`,
             },
           ],
           structuredContent: {
-            search,
-            summary: {
-              hotelCount: search.hotels.length,
-              city,
-              checkIn,
-              checkOut,
-              nights: search.searchParams.nights,
-              guests,
-            },
+            success: true,
+            ...result,
           },
         };
       } catch (error) {
@@ -467,131 +1950,379 @@ const getServer = async () => {
     },
   );
 
-  // Register select-hotel tool (helper for UI)
+  // Register submit-hotel-review tool
   server.registerTool(
-    "select-hotel",
+    "submit-hotel-review",
     {
-      title: "Select Hotel",
+      title: "Submit Hotel Review",
       description:
-        "Selects a hotel from search results and returns available rooms",
+        "Submits a guest review for a hotel booking after check-out. Each booking can be reviewed once, and the review updates the hotel's rating.",
       inputSchema: {
-        searchId: z.string().describe("The search session ID"),
-        hotelId: z.string().describe("The hotel ID to select"),
+        confirmationNumber: z.string().describe("The hotel booking confirmation number"),
+        travellerType: z
+          .enum(["solo", "couple", "family", "business", "friends"])
+          .describe("Who the guest travelled with"),
+        scores: z
+          .object({
+            cleanliness: z.number().min(1).max(10),
+            location: z.number().min(1).max(10),
+            service: z.number().min(1).max(10),
+          })
+          .describe("Scores from 1 to 10 for each aspect of the stay"),
+        text: z.string().describe("The review, at least 20 characters"),
+        title: z.string().optional().describe("Short headline for the review"),
       },
     },
-    async ({ searchId, hotelId }): Promise<CallToolResult> => {
-      const result = selectHotel(searchId, hotelId);
+    async ({
+      confirmationNumber,
+      travellerType,
+      scores,
+      text,
+      title,
+    }): Promise<CallToolResult> => {
+      const result = submitHotelReview({
+        confirmationNumber,
+        travellerType,
+        scores,
+        text,
+        title,
+      });
 
-      if (!result) {
+      if (!result.success) {
         return {
-          content: [{ type: "text", text: "Hotel or search not found." }],
-          structuredContent: {
-            success: false,
-            error: "Hotel or search not found",
-          },
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
         };
       }
 
-      const roomSummary = result.rooms
-        .map((r) => `${r.name}: $${r.pricePerNight}/night`)
-        .join(", ");
+      return {
+        content: [{ type: "text", text: result.message }],
+        structuredContent: {
+          success: true,
+          review: result.review,
+          rating: result.rating,
+          reviewCount: result.reviewCount,
+        },
+      };
+    },
+  );
+
+  // ============================================
+  // LOYALTY TOOLS
+  // ============================================
+
+  // Register get-loyalty-account tool (opens the loyalty UI)
+  server.registerTool(
+    "get-loyalty-account",
+    {
+      title: "Get Loyalty Account",
+      description:
+        "Shows a loyalty member's points balance, tier, perks and points history. Travellers join on their first flight or hotel booking, as the first passenger or guest.",
+      inputSchema: {
+        member: z
+          .string()
+          .describe("Member ID (e.g., TM48213907) or the email address used to book"),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: loyaltyResource.uri,
+      },
+    },
+    async ({ member }): Promise<CallToolResult> => {
+      const account = getLoyaltyAccount(member);
+
+      if (!account) {
+        const message = `No loyalty account found for ${member}. Travellers join on their first booking.`;
+        return {
+          content: [{ type: "text", text: message }],
+          structuredContent: { success: false, error: message },
+        };
+      }
+
+      const benefits = getTierBenefits(account.tier);
+      const nextTier = getNextTier(account);
+      const perks = benefits.perks.map((perk) => PERK_DESCRIPTIONS[perk]);
+      const recent = account.history
+        .slice(0, 5)
+        .map((t) => `${t.createdAt.slice(0, 10)} ${t.points > 0 ? "+" : ""}${t.points}: ${t.description}`)
+        .join("\n");
 
       return {
         content: [
           {
             type: "text",
-            text: `Selected ${result.hotel.name} (${"★".repeat(result.hotel.stars)}). Available rooms: ${roomSummary}`,
+            text:
+              `${account.name} (${account.memberId}), ${benefits.name} member\n` +
+              `Balance: ${account.balance} points (worth $${Math.floor(Math.max(0, account.balance) / POINTS_PER_DOLLAR)})\n` +
+              (nextTier ? `${nextTier.pointsNeeded} more points to ${nextTier.tier.name}\n` : "") +
+              `Perks: ${perks.length > 0 ? perks.join("; ") : "none yet"}` +
+              (recent ? `\n\nRecent activity:\n${recent}` : ""),
           },
         ],
         structuredContent: {
           success: true,
-          hotel: result.hotel,
-          rooms: result.rooms,
+          account,
+          benefits,
+          nextTier,
+          perks,
+          pointsPerDollar: POINTS_PER_DOLLAR,
         },
       };
     },
   );
 
-  // Register select-room tool (helper for UI)
+  // ============================================
+  // PROMO TOOLS
+  // ============================================
+
+  // Register apply-promo tool (helper for UI)
   server.registerTool(
-    "select-room",
+    "apply-promo",
     {
-      title: "Select Room",
-      description: "Selects a room type and quantity for the booking",
+      title: "Apply Promo Code",
+      description:
+        "Checks a promo code against a flight or hotel search session and returns the price breakdown with the discount. The code is kept on the session and used when booking. Pass an empty code to remove it.",
       inputSchema: {
-        searchId: z.string().describe("The search session ID"),
-        hotelId: z.string().describe("The hotel ID"),
-        roomId: z.string().describe("The room type ID"),
-        quantity: z.number().min(1).max(4).describe("Number of rooms"),
+        searchId: z.string().describe("The flight or hotel search session ID"),
+        code: z.string().describe("The promo code, e.g. WELCOME10"),
       },
     },
-    async ({
-      searchId,
-      hotelId,
-      roomId,
-      quantity,
-    }): Promise<CallToolResult> => {
-      const result = selectRoom(searchId, hotelId, roomId, quantity);
+    async ({ searchId, code }): Promise<CallToolResult> => {
+      const product = getHotelSearch(searchId) ? "hotel" : "flight";
+      let result;
+      let priceBreakdown: { label: string; amount: number }[] | undefined;
+
+      if (product === "hotel") {
+        result = applyHotelPromo(searchId, code);
+        priceBreakdown = result.rooms && result.promo && [
+          ...result.rooms.map((q) => ({ label: `${q.quantity}x ${q.room.name}`, amount: q.totalPrice })),
+          { label: `Promo ${result.promo.code}`, amount: -result.promo.discount },
+        ];
+      } else {
+        result = applyFlightPromo(searchId, code);
+        priceBreakdown = result.priceBreakdown;
+      }
+
+      const lines = priceBreakdown
+        ?.map((line) => `${line.label}: $${line.amount}`)
+        .join("\n");
 
       return {
-        content: [{ type: "text", text: result.message }],
+        content: [
+          {
+            type: "text",
+            text: lines
+              ? `${result.message}\n${lines}\nTotal: $${result.totalPrice!.toFixed(2)}`
+              : result.message,
+          },
+        ],
         structuredContent: {
           success: result.success,
-          room: result.room,
+          product,
+          promo: result.promo,
+          priceBreakdown,
+          subtotal: result.subtotal,
           totalPrice: result.totalPrice,
+          errorCode: result.errorCode,
           error: result.success ? undefined : result.message,
         },
       };
     },
   );
 
-  // Register book-hotel tool (helper for UI)
+  // ============================================
+  // TRIP TOOLS
+  // ============================================
+
+  // Summarise a trip for the agent: dates, cities, each day's events and any problems
+  const describeItinerary = (itinerary: TripItinerary) => {
+    const { trip, startDate, endDate } = itinerary;
+    const header =
+      `Trip "${trip.name}" (${trip.id})` +
+      (startDate ? `, ${startDate} to ${endDate}` : ", no confirmed bookings yet") +
+      (itinerary.cities.length > 0 ? `\nCities: ${itinerary.cities.join(" → ")}` : "") +
+      `\nBookings: ${[...trip.flightBookings, ...trip.hotelBookings].join(", ") || "none"}` +
+      `\nTotal: $${itinerary.totalPrice.toFixed(2)}`;
+    const days = itinerary.days
+      .filter((day) => day.events.length > 0 || day.hotel)
+      .map(
+        (day) =>
+          `${day.date}${day.city ? ` (${day.city})` : ""}: ` +
+          [
+            ...day.events.map((e) => `${e.time ?? ""} ${e.title} - ${e.detail}`.trim()),
+            ...(day.hotel ? [`night at ${day.hotel.name}`] : []),
+          ].join("; "),
+      )
+      .join("\n");
+    const issues =
+      itinerary.issues.length > 0
+        ? `\n\nProblems:\n${itinerary.issues.map((i) => `- [${i.severity}] ${i.message}`).join("\n")}`
+        : "\n\nNo problems found.";
+    return `${header}${days ? `\n\n${days}` : ""}${issues}`;
+  };
+
+  // Register create-trip tool (opens the itinerary UI)
   server.registerTool(
-    "book-hotel",
+    "create-trip",
     {
-      title: "Book Hotel",
-      description: "Completes the hotel booking with guest details",
+      title: "Create Trip",
+      description:
+        "Groups existing flight and hotel bookings into a trip and shows its day-by-day itinerary, flagging problems such as a hotel check-in before the flight lands or nights away without a hotel",
       inputSchema: {
-        searchId: z.string().describe("The search session ID"),
-        guests: z
-          .array(
-            z.object({
-              name: z.string().describe("Guest full name"),
-              email: z.string().describe("Guest email"),
-            }),
-          )
-          .describe("Guest information"),
-        specialRequests: z
-          .string()
-          .optional()
-          .describe("Special requests for the hotel"),
+        name: z.string().describe("Trip name (e.g., Paris in spring)"),
+        confirmationNumbers: z
+          .array(z.string())
+          .min(1)
+          .describe("Confirmation numbers of flight and hotel bookings on the trip"),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: itineraryResource.uri,
       },
     },
-    async ({ searchId, guests, specialRequests }): Promise<CallToolResult> => {
-      const result = createHotelBooking(searchId, guests, specialRequests);
+    async ({ name, confirmationNumbers }): Promise<CallToolResult> => {
+      const result = createTrip(name, confirmationNumbers);
 
-      if (!result.success || !result.booking) {
+      if (!result.success || !result.trip) {
         return {
           content: [{ type: "text", text: result.message }],
           structuredContent: { success: false, error: result.message },
         };
       }
 
+      const itinerary = buildItinerary(result.trip);
       return {
-        content: [
-          {
-            type: "text",
-            text: `Booking confirmed! Confirmation: ${result.booking.confirmationNumber}\n\nHotel: ${result.booking.hotel.name}\nRoom: ${result.booking.roomQuantity}x ${result.booking.room.name}\nDates: ${result.booking.checkIn} to ${result.booking.checkOut} (${result.booking.nights} nights)\nTotal: $${result.booking.totalPrice.toFixed(2)}`,
-          },
-        ],
-        structuredContent: {
-          success: true,
-          booking: result.booking,
-        },
+        content: [{ type: "text", text: `${result.message}\n\n${describeItinerary(itinerary)}` }],
+        structuredContent: { success: true, itinerary },
+      };
+    },
+  );
+
+  // Register add-to-trip tool (helper for UI)
+  server.registerTool(
+    "add-to-trip",
+    {
+      title: "Add To Trip",
+      description: "Adds more flight or hotel bookings to an existing trip and returns the updated itinerary",
+      inputSchema: {
+        tripId: z.string().describe("The trip ID"),
+        confirmationNumbers: z
+          .array(z.string())
+          .min(1)
+          .describe("Confirmation numbers of the bookings to add"),
+      },
+    },
+    async ({ tripId, confirmationNumbers }): Promise<CallToolResult> => {
+      const result = addBookingsToTrip(tripId, confirmationNumbers);
+
+      if (!result.success || !result.trip) {
+        return {
+          content: [{ type: "text", text: result.message }],
+          structuredContent: { success: false, error: result.message },
+        };
+      }
+
+      const itinerary = buildItinerary(result.trip);
+      return {
+        content: [{ type: "text", text: `${result.message}\n\n${describeItinerary(itinerary)}` }],
+        structuredContent: { success: true, itinerary },
+      };
+    },
+  );
+
+  // Register get-trip tool (opens the itinerary UI)
+  server.registerTool(
+    "get-trip",
+    {
+      title: "Get Trip",
+      description:
+        "Shows a trip's day-by-day itinerary from the current state of its bookings, including delays and cancellations, and lists any problems with how the flights and hotels fit together",
+      inputSchema: {
+        tripId: z.string().describe("The trip ID"),
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: itineraryResource.uri,
+      },
+    },
+    async ({ tripId }): Promise<CallToolResult> => {
+      const trip = getTrip(tripId);
+
+      if (!trip) {
+        return {
+          content: [{ type: "text", text: `Trip not found: ${tripId}` }],
+          structuredContent: { success: false, error: `Trip not found: ${tripId}` },
+        };
+      }
+
+      const itinerary = buildItinerary(trip);
+      return {
+        content: [{ type: "text", text: describeItinerary(itinerary) }],
+        structuredContent: { success: true, itinerary },
       };
     },
   );
 
+  // ============================================
+  // LOCATION TOOLS
+  // ============================================
+
+  // Register lookup-location tool (autocomplete for the booking apps)
+  server.registerTool(
+    "lookup-location",
+    {
+      title: "Lookup Location",
+      description:
+        "Finds airports and cities matching a code, city name or airport name, with tolerance for typos. Returns ranked matches.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe("Text to match, e.g. JFK, new york, Heathrow or Tokio"),
+        type: z
+          .enum(["airport", "city", "any"])
+          .optional()
+          .describe(
+            "Restrict to airports (flights) or cities (hotels) (default: any)",
+          ),
+        limit: z
+          .number()
+          .min(1)
+          .max(10)
+          .optional()
+          .describe("Maximum number of matches (1-10, default: 5)"),
+      },
+    },
+    async ({ query, type, limit }): Promise<CallToolResult> => {
+      try {
+        const matches = lookupLocation({ query, type, limit });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                matches.length > 0
+                  ? `Matches for "${query}":\n${matches.map((m) => `- ${m.label}`).join("\n")}`
+                  : `No airports or cities match "${query}"`,
+            },
+          ],
+          structuredContent: {
+            success: true,
+            query,
+            matches,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(error as Error).message}` },
+          ],
+          structuredContent: {
+            success: false,
+            error: (error as Error).message,
+          },
+        };
+      }
+    },
+  );
+
   // ============================================
   // INVESTMENT SIMULATOR TOOLS
   // ============================================
@@ -1113,6 +2844,13 @@ app.get("/health", (_req: Request, res: Response) => {
   });
 });
 
+// Simulated flight disruptions on a timer, when enabled
+const disruptionIntervalMinutes = Number(process.env.DISRUPTION_INTERVAL_MINUTES);
+if (disruptionIntervalMinutes > 0) {
+  startDisruptionTimer(disruptionIntervalMinutes * 60 * 1000);
+  console.log(`[Disruptions] Simulating a disruption every ${disruptionIntervalMinutes} minute(s)`);
+}
+
 // Start server
 app.listen(PORT, () => {
   console.log(
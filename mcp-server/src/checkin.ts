@@ -0,0 +1,233 @@
+/**
+ * Online check-in for the Airline Booking demo.
+ * Opens a check-in window before each flight, assigns any missing seats and
+ * issues boarding passes with a scannable IATA BCBP payload.
+ */
+
+import { now } from "./clock.js";
+import { getDepartureTime, getEstimatedDepartureTime, getFlightStatus, getStatusKey } from "./disruptions.js";
+import { Airline, Airport, Booking, CabinClass, Flight, getBooking, getLiveSeatMap, getSeatInventory } from "./flights.js";
+import { utcToZonedTime } from "./geo.js";
+
+/**
+ * A boarding pass for one passenger on one flight.
+ */
+export interface BoardingPass {
+  confirmationNumber: string;
+  legIndex: number;
+  passengerIndex: number;
+  passengerName: string;
+  airline: Airline;
+  flightNumber: string;
+  origin: Airport;
+  destination: Airport;
+  cabinClass: CabinClass;
+  departureDate: string; // YYYY-MM-DD, local to the origin
+  departureTime: string; // HH:MM, local to the origin, including any delay
+  boardingTime: string; // HH:MM, local to the origin
+  gate: string; // e.g. "B23"
+  boardingGroup: number; // 1 boards first
+  seat: string;
+  sequenceNumber: number; // Order of check-in on this flight
+  barcode: string; // IATA BCBP payload for a 2D barcode
+  issuedAt: string;
+}
+
+// Boarding passes per booking leg, keyed by "<confirmation number>-<leg index>"
+export const boardingPasses: Map<string, BoardingPass[]> = new Map();
+
+// Check-in sequence counters per physical flight, keyed by getStatusKey
+const checkInSequences: Map<string, number> = new Map();
+
+// Check-in opens this long before departure
+const CHECK_IN_OPENS_MS = 24 * 60 * 60 * 1000;
+
+// Check-in closes this long before departure
+const CHECK_IN_CLOSES_MS = 45 * 60 * 1000;
+
+// Boarding starts this long before departure
+const BOARDING_MS = 40 * 60 * 1000;
+
+// IATA compartment codes used in the barcode
+const COMPARTMENT_CODES: Record<CabinClass, string> = {
+  first: "F",
+  business: "J",
+  economy: "Y",
+};
+
+/**
+ * Work out a passenger's boarding group.
+ * Premium cabins and priority boarding go first, then economy from the back.
+ */
+function getBoardingGroup(flight: Flight, seat: string, priorityBoarding: boolean): number {
+  if (flight.cabinClass === "first") return 1;
+  if (flight.cabinClass === "business" || priorityBoarding) return 2;
+
+  const { firstRow, lastRow } = flight.seatLayout;
+  const position = (parseInt(seat, 10) - firstRow) / (lastRow - firstRow + 1);
+  return position >= 2 / 3 ? 3 : position >= 1 / 3 ? 4 : 5;
+}
+
+/**
+ * Build the mandatory fields of an IATA Bar Coded Boarding Pass (BCBP).
+ */
+function encodeBcbp(pass: Omit<BoardingPass, "barcode">): string {
+  const parts = pass.passengerName.toUpperCase().replace(/[^A-Z ]/g, "").trim().split(/\s+/);
+  const surname = parts.length > 1 ? parts.pop()! : parts[0];
+  const name = `${surname}/${parts.join(" ")}`;
+
+  const dayOfYear =
+    (Date.parse(`${pass.departureDate}T00:00:00Z`) - Date.UTC(Number(pass.departureDate.slice(0, 4)), 0, 1)) / 86400000 + 1;
+  const seatRow = pass.seat.slice(0, -1).padStart(3, "0");
+
+  return [
+    "M1",
+    name.slice(0, 20).padEnd(20),
+    "E",
+    pass.confirmationNumber.padEnd(7),
+    pass.origin.code,
+    pass.destination.code,
+    pass.airline.code.padEnd(3),
+    pass.flightNumber.slice(pass.airline.code.length).padStart(4, "0").padEnd(5),
+    String(dayOfYear).padStart(3, "0"),
+    COMPARTMENT_CODES[pass.cabinClass],
+    `${seatRow}${pass.seat.slice(-1)}`,
+    String(pass.sequenceNumber).padStart(4, "0").padEnd(5),
+    "1",
+    "00",
+  ].join("");
+}
+
+/**
+ * Find the leg to check in: the given one, or the next flight that has not closed check-in.
+ */
+function findCheckInLeg(booking: Booking, legIndex?: number): number {
+  if (legIndex !== undefined) return legIndex;
+
+  const next = booking.legs.findIndex((leg) => getEstimatedDepartureTime(leg.flight) - CHECK_IN_CLOSES_MS > now());
+  return next >= 0 ? next : booking.legs.length - 1;
+}
+
+/**
+ * Check every passenger in for one flight of a booking.
+ * Passengers without a seat get one assigned. Checking in again returns the
+ * same boarding passes, updated for any seat, gate or delay changes.
+ */
+export function checkIn(
+  confirmationNumber: string,
+  legIndex?: number
+): {
+  success: boolean;
+  message: string;
+  boardingPasses?: BoardingPass[];
+  assignedSeats?: string[];
+  opensAt?: string;
+} {
+  const booking = getBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: `Booking not found: ${confirmationNumber}` };
+  }
+
+  if (booking.status === "cancelled") {
+    return { success: false, message: `Booking ${booking.confirmationNumber} has been cancelled` };
+  }
+
+  const index = findCheckInLeg(booking, legIndex);
+  const leg = booking.legs[index];
+  if (!leg) {
+    return { success: false, message: `Leg ${legIndex} not found. This booking has ${booking.legs.length} leg(s).` };
+  }
+
+  const flight = leg.flight;
+  const route = `${flight.flightNumber} ${flight.origin.code} → ${flight.destination.code}`;
+  const status = getFlightStatus(flight);
+  if (status.status === "cancelled") {
+    return { success: false, message: `${route} has been cancelled. Rebook onto another flight before checking in.` };
+  }
+
+  // Check-in opens on the schedule but closes and boards relative to any delay
+  const opensAt = getDepartureTime(flight) - CHECK_IN_OPENS_MS;
+  const departsAt = getEstimatedDepartureTime(flight);
+  const currentTime = now();
+
+  if (currentTime < opensAt) {
+    const opens = utcToZonedTime(opensAt, flight.origin.timezone);
+    return {
+      success: false,
+      message: `Check-in for ${route} opens 24 hours before departure, at ${opens.time} on ${opens.date} (${flight.origin.code} time)`,
+      opensAt: new Date(opensAt).toISOString(),
+    };
+  }
+
+  if (currentTime > departsAt - CHECK_IN_CLOSES_MS) {
+    return { success: false, message: `Check-in for ${route} has closed` };
+  }
+
+  // Give anyone without a seat the first free seat, preferring ones with no fee
+  const assignedSeats: string[] = [];
+  const inventory = getSeatInventory(flight);
+  const freeSeats = getLiveSeatMap(flight).flat()
+    .filter((seat) => seat.status !== "occupied")
+    .sort((a, b) => a.price - b.price);
+  const unseated = booking.passengers.filter((_, passengerIndex) => !leg.seats[passengerIndex]).length;
+  if (freeSeats.length < unseated) {
+    return { success: false, message: `No seats left to assign on ${route}. Please see an agent at the airport.` };
+  }
+
+  booking.passengers.forEach((_, passengerIndex) => {
+    if (leg.seats[passengerIndex]) return;
+    const seat = freeSeats.shift()!;
+    inventory.booked.add(seat.id);
+    leg.seats[passengerIndex] = seat.id;
+    assignedSeats.push(seat.id);
+  });
+  inventory.unassigned -= assignedSeats.length;
+
+  const key = `${booking.confirmationNumber}-${index}`;
+  const flightKey = getStatusKey(flight);
+  // Passes issued for a flight the leg was rebooked off are replaced
+  const previous = (boardingPasses.get(key) ?? []).filter((p) => p.flightNumber === flight.flightNumber);
+  const boarding = utcToZonedTime(departsAt - BOARDING_MS, flight.origin.timezone);
+  const gate = status.gate;
+
+  const passes = booking.passengers.map((passenger, passengerIndex): BoardingPass => {
+    const existing = previous.find((p) => p.passengerIndex === passengerIndex);
+    let sequenceNumber = existing?.sequenceNumber;
+    if (sequenceNumber === undefined) {
+      sequenceNumber = (checkInSequences.get(flightKey) ?? 0) + 1;
+      checkInSequences.set(flightKey, sequenceNumber);
+    }
+
+    const seat = leg.seats[passengerIndex];
+    const pass: Omit<BoardingPass, "barcode"> = {
+      confirmationNumber: booking.confirmationNumber,
+      legIndex: index,
+      passengerIndex,
+      passengerName: passenger.name,
+      airline: flight.airline,
+      flightNumber: flight.flightNumber,
+      origin: flight.origin,
+      destination: flight.destination,
+      cabinClass: flight.cabinClass,
+      departureDate: flight.departureDate,
+      departureTime: status.estimatedDepartureTime,
+      boardingTime: boarding.time,
+      gate,
+      boardingGroup: getBoardingGroup(flight, seat, booking.extras.passengers[passengerIndex]?.priorityBoarding ?? false),
+      seat,
+      sequenceNumber,
+      issuedAt: existing?.issuedAt ?? new Date(currentTime).toISOString(),
+    };
+
+    return { ...pass, barcode: encodeBcbp(pass) };
+  });
+
+  boardingPasses.set(key, passes);
+
+  return {
+    success: true,
+    message: `Checked in ${passes.length} passenger(s) for ${route}. Boarding at ${boarding.time} from gate ${gate}.`,
+    boardingPasses: passes,
+    assignedSeats,
+  };
+}
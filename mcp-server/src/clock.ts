@@ -0,0 +1,34 @@
+/**
+ * Server clock for the booking demos.
+ * Runs on real time unless MOCK_NOW (an ISO timestamp) is set, in which case it
+ * starts from that moment and keeps ticking, so time-based rules like the
+ * check-in window can be demonstrated for any flight date.
+ */
+
+// Milliseconds added to the real time
+const offsetMs = process.env.MOCK_NOW ? parseMockTime(process.env.MOCK_NOW) - Date.now() : 0;
+
+/**
+ * Parse a mock time, rejecting values that are not a valid timestamp.
+ */
+function parseMockTime(value: string): number {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid mock time: ${value}. Use an ISO timestamp like 2026-12-01T08:00:00Z`);
+  }
+  return time;
+}
+
+/**
+ * Current server time in epoch milliseconds.
+ */
+export function now(): number {
+  return Date.now() + offsetMs;
+}
+
+/**
+ * Current server date as YYYY-MM-DD (UTC).
+ */
+export function today(): string {
+  return new Date(now()).toISOString().slice(0, 10);
+}
@@ -0,0 +1,113 @@
+/**
+ * Date validation shared by the booking demos.
+ * Checks search dates and date ranges, reporting each problem with the field it
+ * belongs to and a code the apps can use to highlight that field.
+ */
+
+import { today as serverToday } from "./clock.js";
+import { addDays, daysBetween } from "./geo.js";
+
+export type DateErrorCode =
+  | "invalid-format"
+  | "invalid-date"
+  | "in-past"
+  | "too-far-ahead"
+  | "before-start"
+  | "range-too-long";
+
+/**
+ * A validation problem with one date field.
+ */
+export interface DateError {
+  field: string; // e.g. "checkOut" or "additionalLegs.0.departureDate"
+  code: DateErrorCode;
+  message: string;
+}
+
+/**
+ * Thrown by searches when one or more dates are invalid.
+ */
+export class DateValidationError extends Error {
+  errors: DateError[];
+
+  constructor(errors: DateError[]) {
+    super(errors.map((e) => e.message).join("; "));
+    this.name = "DateValidationError";
+    this.errors = errors;
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Furthest ahead a search date can be
+export const MAX_DAYS_AHEAD = 365;
+
+/**
+ * Check a YYYY-MM-DD string is a real calendar date.
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Check one travel date is well formed and within the bookable window.
+ * Travel dates are local to the city, which can still be a day behind the UTC
+ * date, so yesterday's date is accepted.
+ */
+export function checkTravelDate(
+  field: string,
+  label: string,
+  value: string,
+  today: string = serverToday()
+): DateError | undefined {
+  if (!DATE_PATTERN.test(value)) {
+    return { field, code: "invalid-format", message: `${label} must be a date in YYYY-MM-DD format` };
+  }
+  if (!isValidDate(value)) {
+    return { field, code: "invalid-date", message: `${label} ${value} is not a real date` };
+  }
+  if (value < addDays(today, -1)) {
+    return { field, code: "in-past", message: `${label} ${value} is in the past` };
+  }
+  if (daysBetween(today, value) > MAX_DAYS_AHEAD) {
+    return { field, code: "too-far-ahead", message: `${label} can be at most ${MAX_DAYS_AHEAD} days ahead` };
+  }
+  return undefined;
+}
+
+/**
+ * Check a date comes after an earlier one in the same trip, and not too long after it.
+ * Both dates must already be valid.
+ */
+export function checkDateOrder(
+  field: string,
+  label: string,
+  value: string,
+  start: { date: string; label: string; minDays: number; maxDays?: number }
+): DateError | undefined {
+  const days = daysBetween(start.date, value);
+  if (days < start.minDays) {
+    const rule = start.minDays > 0 ? "must be after" : "cannot be before";
+    return { field, code: "before-start", message: `${label} ${rule} ${start.label}` };
+  }
+  if (start.maxDays !== undefined && days > start.maxDays) {
+    return {
+      field,
+      code: "range-too-long",
+      message: `${label} can be at most ${start.maxDays} days after ${start.label}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Throw a DateValidationError if any date checks failed.
+ */
+export function assertValidDates(errors: (DateError | undefined)[]): void {
+  const failed = errors.filter((e): e is DateError => e !== undefined);
+  if (failed.length > 0) {
+    throw new DateValidationError(failed);
+  }
+}
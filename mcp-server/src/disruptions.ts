@@ -0,0 +1,403 @@
+/**
+ * Simulated flight status for the Airline Booking demo.
+ * Booked flights can be delayed, cancelled or moved to another gate, either on
+ * demand or on a timer. Passengers on a cancelled flight can be rebooked onto
+ * another flight on the same route at no cost.
+ */
+
+import { now } from "./clock.js";
+import { DateValidationError } from "./dates.js";
+import {
+  Booking,
+  Flight,
+  bookings,
+  cancelledFlights,
+  countAvailableSeats,
+  flightSearches,
+  getBooking,
+  getLiveSeatMap,
+  getPhysicalFlightKey,
+  getSeatInventory,
+  repriceBooking,
+  searchFlights,
+} from "./flights.js";
+import { addDays, utcToZonedTime, zonedTimeToUtc } from "./geo.js";
+import { createSeededRandom, getDefaultSeed } from "./random.js";
+
+export type FlightStatusCode = "scheduled" | "delayed" | "cancelled";
+export type DisruptionType = "delay" | "cancellation" | "gate-change";
+
+/**
+ * One change to a flight's status, newest last.
+ */
+export interface StatusEvent {
+  type: DisruptionType;
+  message: string;
+  at: string;
+}
+
+/**
+ * Live status of a physical flight (flight number + date).
+ */
+export interface FlightStatus {
+  flightNumber: string;
+  departureDate: string; // Scheduled, YYYY-MM-DD local to the origin
+  status: FlightStatusCode;
+  gate: string; // e.g. "B23"
+  previousGate?: string; // Set after a gate change
+  delayMinutes: number;
+  estimatedDepartureDate: string; // YYYY-MM-DD, local to the origin
+  estimatedDepartureTime: string; // HH:MM, local to the origin
+  reason?: string; // Reason given for the latest delay or cancellation
+  events: StatusEvent[];
+  updatedAt: string;
+}
+
+// Disrupted flights, keyed by getStatusKey; flights not listed are on schedule
+export const flightStatuses: Map<string, FlightStatus> = new Map();
+
+const DELAY_REASONS = [
+  "Late arrival of the inbound aircraft",
+  "Air traffic control restrictions",
+  "Weather at the destination",
+  "Crew scheduling",
+  "Additional security screening",
+];
+
+const CANCELLATION_REASONS = [
+  "Technical fault with the aircraft",
+  "Severe weather",
+  "Industrial action by ground staff",
+  "Airspace closure",
+];
+
+/**
+ * Chance of each disruption when no type is requested, checked in order.
+ */
+const DISRUPTION_WEIGHTS: { type: DisruptionType; weight: number }[] = [
+  { type: "delay", weight: 0.6 },
+  { type: "gate-change", weight: 0.25 },
+  { type: "cancellation", weight: 0.15 },
+];
+
+// Random delays are whole steps of this many minutes
+const DELAY_STEP_MINUTES = 15;
+
+// Random delays range from 2 to 16 steps (30 minutes to 4 hours)
+const MIN_DELAY_STEPS = 2;
+const MAX_DELAY_STEPS = 16;
+
+// Most alternative flights offered when a flight is cancelled
+const MAX_REBOOKING_OPTIONS = 6;
+
+/**
+ * Get the key of a physical flight in the status map.
+ */
+export function getStatusKey(flight: Flight): string {
+  return getPhysicalFlightKey(flight);
+}
+
+/**
+ * Get the scheduled departure time of a flight as a UTC timestamp.
+ */
+export function getDepartureTime(flight: Flight): number {
+  return zonedTimeToUtc({ date: flight.departureDate, time: flight.departureTime }, flight.origin.timezone);
+}
+
+/**
+ * Get the scheduled arrival time of a flight as a UTC timestamp.
+ */
+function getArrivalTime(flight: Flight): number {
+  return zonedTimeToUtc({ date: flight.arrivalDate, time: flight.arrivalTime }, flight.destination.timezone);
+}
+
+/**
+ * Pick a seeded gate for a flight, e.g. "B23".
+ */
+function generateGate(flight: Flight, ...parts: (string | number)[]): string {
+  const random = createSeededRandom(flight.seed, getStatusKey(flight), "gate", ...parts);
+  const terminal = "ABCDE"[Math.floor(random() * 5)];
+  return `${terminal}${1 + Math.floor(random() * 40)}`;
+}
+
+/**
+ * Get the live status of a flight. Flights that have not been disrupted are on
+ * schedule at their seeded gate.
+ */
+export function getFlightStatus(flight: Flight): FlightStatus {
+  const stored = flightStatuses.get(getStatusKey(flight));
+  if (stored) return stored;
+
+  return {
+    flightNumber: flight.flightNumber,
+    departureDate: flight.departureDate,
+    status: "scheduled",
+    gate: generateGate(flight),
+    delayMinutes: 0,
+    estimatedDepartureDate: flight.departureDate,
+    estimatedDepartureTime: flight.departureTime,
+    events: [],
+    updatedAt: new Date(now()).toISOString(),
+  };
+}
+
+/**
+ * Get the indexes of a booking's legs whose flight the airline has cancelled.
+ */
+export function getCancelledLegs(booking: Booking): number[] {
+  return booking.legs.flatMap((leg, index) => (getFlightStatus(leg.flight).status === "cancelled" ? [index] : []));
+}
+
+/**
+ * Get the expected departure time of a flight, including any delay, as a UTC timestamp.
+ */
+export function getEstimatedDepartureTime(flight: Flight): number {
+  return getDepartureTime(flight) + getFlightStatus(flight).delayMinutes * 60 * 1000;
+}
+
+/**
+ * Get the expected arrival time of a flight, including any delay, as a UTC timestamp.
+ */
+export function getEstimatedArrivalTime(flight: Flight): number {
+  return getArrivalTime(flight) + getFlightStatus(flight).delayMinutes * 60 * 1000;
+}
+
+/**
+ * Find flights on the same route and cabin that passengers on a cancelled leg
+ * can move to: later flights that day or the next, that have room for the
+ * whole party and still connect with the rest of the trip.
+ */
+export function getRebookingOptions(booking: Booking, legIndex: number): Flight[] {
+  const leg = booking.legs[legIndex];
+  if (!leg) return [];
+
+  const cancelled = leg.flight;
+  const previous = booking.legs[legIndex - 1]?.flight;
+  const next = booking.legs[legIndex + 1]?.flight;
+  const earliest = Math.max(now(), previous ? getArrivalTime(previous) : 0);
+
+  const candidates = [cancelled.departureDate, addDays(cancelled.departureDate, 1)].flatMap((date) => {
+    try {
+      const search = searchFlights({
+        origin: cancelled.origin.code,
+        destination: cancelled.destination.code,
+        departureDate: date,
+        passengers: booking.passengers.length,
+        cabinClass: cancelled.cabinClass,
+        seed: cancelled.seed,
+      });
+      // Only the flights are needed, not a search session
+      flightSearches.delete(search.id);
+      return search.legs[0].flights;
+    } catch (error) {
+      // Days that can no longer be searched, e.g. in the past, have no options
+      if (error instanceof DateValidationError) return [];
+      throw error;
+    }
+  });
+
+  return candidates
+    .filter((flight) => getDepartureTime(flight) > earliest)
+    .filter((flight) => !next || getArrivalTime(flight) < getDepartureTime(next))
+    .sort((a, b) => getDepartureTime(a) - getDepartureTime(b))
+    .slice(0, MAX_REBOOKING_OPTIONS);
+}
+
+/**
+ * Pick a disruption type using the configured weights.
+ */
+function pickDisruptionType(random: () => number): DisruptionType {
+  let roll = random();
+  for (const { type, weight } of DISRUPTION_WEIGHTS) {
+    if (roll < weight) return type;
+    roll -= weight;
+  }
+  return "delay";
+}
+
+/**
+ * Delay, cancel or change the gate of one flight on a booking.
+ * The disruption applies to the physical flight, so every booking on it sees
+ * the new status. Without a type, one is picked at random. Delays add up, and
+ * a cancellation returns the flights the booking can be moved to.
+ */
+export function simulateDisruption(
+  confirmationNumber: string,
+  options: { legIndex?: number; type?: DisruptionType; delayMinutes?: number } = {}
+): {
+  success: boolean;
+  message: string;
+  booking?: Booking;
+  status?: FlightStatus;
+  rebookingOptions?: Flight[];
+} {
+  const { legIndex = 0 } = options;
+
+  const booking = getBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: `Booking not found: ${confirmationNumber}` };
+  }
+
+  if (booking.status === "cancelled") {
+    return { success: false, message: `Booking ${booking.confirmationNumber} has been cancelled` };
+  }
+
+  const leg = booking.legs[legIndex];
+  if (!leg) {
+    return { success: false, message: `Leg ${legIndex} not found. This booking has ${booking.legs.length} leg(s).` };
+  }
+
+  const flight = leg.flight;
+  const current = getFlightStatus(flight);
+  if (current.status === "cancelled") {
+    return { success: false, message: `${flight.flightNumber} on ${flight.departureDate} is already cancelled` };
+  }
+
+  if (getEstimatedDepartureTime(flight) <= now()) {
+    return { success: false, message: `${flight.flightNumber} on ${flight.departureDate} has already departed` };
+  }
+
+  // Seeded per event so the same sequence of disruptions plays out the same way
+  const random = createSeededRandom(getDefaultSeed(), getStatusKey(flight), "disruption", current.events.length);
+  const type = options.type ?? pickDisruptionType(random);
+  const status: FlightStatus = { ...current, events: [...current.events], updatedAt: new Date(now()).toISOString() };
+  let message: string;
+
+  if (type === "delay") {
+    const steps = MIN_DELAY_STEPS + Math.floor(random() * (MAX_DELAY_STEPS - MIN_DELAY_STEPS + 1));
+    const addedMinutes = options.delayMinutes ?? steps * DELAY_STEP_MINUTES;
+    const estimated = utcToZonedTime(
+      getDepartureTime(flight) + (current.delayMinutes + addedMinutes) * 60 * 1000,
+      flight.origin.timezone
+    );
+
+    status.status = "delayed";
+    status.delayMinutes = current.delayMinutes + addedMinutes;
+    status.estimatedDepartureDate = estimated.date;
+    status.estimatedDepartureTime = estimated.time;
+    status.reason = DELAY_REASONS[Math.floor(random() * DELAY_REASONS.length)];
+    message = `${flight.flightNumber} is delayed by ${addedMinutes} minutes (${status.reason}). Now departing ${estimated.time} on ${estimated.date}.`;
+  } else if (type === "gate-change") {
+    let gate = generateGate(flight, current.events.length);
+    for (let attempt = 1; gate === current.gate; attempt++) {
+      gate = generateGate(flight, current.events.length, attempt);
+    }
+
+    status.previousGate = current.gate;
+    status.gate = gate;
+    message = `${flight.flightNumber} now departs from gate ${gate} (was ${current.gate}).`;
+  } else {
+    status.status = "cancelled";
+    cancelledFlights.add(getPhysicalFlightKey(flight));
+    status.reason = CANCELLATION_REASONS[Math.floor(random() * CANCELLATION_REASONS.length)];
+    message = `${flight.flightNumber} on ${flight.departureDate} has been cancelled (${status.reason}).`;
+  }
+
+  status.events.push({ type, message, at: status.updatedAt });
+  flightStatuses.set(getStatusKey(flight), status);
+
+  if (type !== "cancellation") {
+    return { success: true, message, booking, status };
+  }
+
+  const rebookingOptions = getRebookingOptions(booking, legIndex);
+  return {
+    success: true,
+    message: rebookingOptions.length > 0
+      ? `${message} ${rebookingOptions.length} alternative flight(s) are available for free rebooking.`
+      : `${message} No alternative flights are available; the booking can be cancelled for a full refund of this flight's fare and seat fees.`,
+    booking,
+    status,
+    rebookingOptions,
+  };
+}
+
+/**
+ * Move a cancelled leg of a booking onto one of its rebooking options.
+ * Seats on the new flight are assigned automatically, cheapest first, at no
+ * charge. The fare carries over and seat fees paid on the cancelled flight
+ * come off the booking total.
+ */
+export function rebookFlight(
+  confirmationNumber: string,
+  legIndex: number,
+  flightId: string
+): { success: boolean; message: string; booking?: Booking } {
+  const booking = getBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: `Booking not found: ${confirmationNumber}` };
+  }
+
+  if (booking.status === "cancelled") {
+    return { success: false, message: `Booking ${booking.confirmationNumber} has been cancelled` };
+  }
+
+  const leg = booking.legs[legIndex];
+  if (!leg) {
+    return { success: false, message: `Leg ${legIndex} not found. This booking has ${booking.legs.length} leg(s).` };
+  }
+
+  if (getFlightStatus(leg.flight).status !== "cancelled") {
+    return { success: false, message: `${leg.flight.flightNumber} has not been cancelled, so it cannot be rebooked` };
+  }
+
+  const flight = getRebookingOptions(booking, legIndex).find((f) => f.id === flightId);
+  if (!flight) {
+    return { success: false, message: `Flight ${flightId} is not one of the rebooking options for this booking` };
+  }
+
+  const seatMap = getLiveSeatMap(flight);
+  if (countAvailableSeats(flight, seatMap) < booking.passengers.length) {
+    return { success: false, message: `${flight.flightNumber} no longer has room for ${booking.passengers.length} passenger(s)` };
+  }
+  const freeSeats = seatMap.flat()
+    .filter((seat) => seat.status !== "occupied")
+    .sort((a, b) => a.price - b.price);
+
+  // Release the seats on the cancelled flight and take seats on the new one
+  const oldInventory = getSeatInventory(leg.flight);
+  for (const seatId of leg.seats) oldInventory.booked.delete(seatId);
+  oldInventory.unassigned -= booking.passengers.length - leg.seats.length;
+
+  const seats = freeSeats.slice(0, booking.passengers.length).map((seat) => seat.id);
+  const inventory = getSeatInventory(flight);
+  for (const seatId of seats) inventory.booked.add(seatId);
+
+  const oldFlightNumber = leg.flight.flightNumber;
+  const refundedSeatFees = leg.seatFees;
+  leg.flight = { ...flight, seatsAvailable: flight.seatsAvailable - seats.length };
+  leg.seats = seats;
+  leg.seatFees = 0;
+  if (refundedSeatFees > 0) repriceBooking(booking);
+
+  return {
+    success: true,
+    message: `Rebooked from ${oldFlightNumber} onto ${flight.flightNumber} departing ${flight.departureTime} on ${flight.departureDate}. Seats: ${seats.join(", ")}.${
+      refundedSeatFees > 0 ? ` Seat fees of $${refundedSeatFees} for ${oldFlightNumber} have been taken off the booking total.` : ""
+    }`,
+    booking,
+  };
+}
+
+/**
+ * Disrupt a random upcoming flight on a confirmed booking every interval.
+ * Returns the timer so it can be stopped.
+ */
+export function startDisruptionTimer(intervalMs: number): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    const upcoming = [...bookings.values()]
+      .filter((booking) => booking.status === "confirmed")
+      .flatMap((booking) => booking.legs.map((leg, legIndex) => ({ booking, leg, legIndex })))
+      .filter(({ leg }) => getFlightStatus(leg.flight).status !== "cancelled" && getEstimatedDepartureTime(leg.flight) > now());
+
+    if (upcoming.length === 0) return;
+
+    const { booking, legIndex } = upcoming[Math.floor(Math.random() * upcoming.length)];
+    const result = simulateDisruption(booking.confirmationNumber, { legIndex });
+    console.log(`[Disruptions] ${booking.confirmationNumber}: ${result.message}`);
+  }, intervalMs);
+
+  // Don't keep the process alive just for disruptions
+  timer.unref();
+  return timer;
+}
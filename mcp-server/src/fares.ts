@@ -0,0 +1,129 @@
+/**
+ * Fare engine for the Airline Booking demo.
+ * Turns a cabin's base fare into priced fare buckets that respond to how full
+ * the flight is and how soon it departs.
+ */
+
+import { today as serverToday } from "./clock.js";
+import { CabinClass } from "./flights.js";
+import { daysBetween } from "./geo.js";
+
+export type FareBucket = "basic" | "standard" | "flex";
+
+/**
+ * Refund terms applied when a booking is cancelled.
+ */
+export interface FareRule {
+  refundPercent: number; // Share of the fare returned
+  feePerPassenger: number; // Flat cancellation fee
+}
+
+/**
+ * One bookable fare on a flight, with its price and conditions.
+ */
+export interface FareOption extends FareRule {
+  bucket: FareBucket;
+  name: string; // e.g. "Economy Flex"
+  price: number; // Per passenger
+  changeFee: number | null; // Per passenger to change flights, null when changes are not allowed
+}
+
+/**
+ * Inputs that drive the price of a flight's fares.
+ */
+export interface FareInputs {
+  cabinClass: CabinClass;
+  baseFare: number; // Cabin fare before demand pricing
+  seatsAvailable: number;
+  totalSeats: number;
+  departureDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Price and conditions of one fare bucket relative to the base fare.
+ */
+interface BucketRules extends FareRule {
+  priceFactor: number;
+  changeFee: number | null;
+}
+
+export const FARE_BUCKETS: FareBucket[] = ["basic", "standard", "flex"];
+
+/**
+ * Fare buckets per cabin class. Cheaper buckets give up refund and change rights.
+ */
+const BUCKET_RULES: Record<CabinClass, Record<FareBucket, BucketRules>> = {
+  economy: {
+    basic: { priceFactor: 0.85, changeFee: null, refundPercent: 0, feePerPassenger: 0 },
+    standard: { priceFactor: 1, changeFee: 75, refundPercent: 0.5, feePerPassenger: 75 },
+    flex: { priceFactor: 1.35, changeFee: 0, refundPercent: 1, feePerPassenger: 0 },
+  },
+  business: {
+    basic: { priceFactor: 0.9, changeFee: 150, refundPercent: 0.5, feePerPassenger: 100 },
+    standard: { priceFactor: 1, changeFee: 50, refundPercent: 0.8, feePerPassenger: 50 },
+    flex: { priceFactor: 1.25, changeFee: 0, refundPercent: 1, feePerPassenger: 0 },
+  },
+  first: {
+    basic: { priceFactor: 0.9, changeFee: 150, refundPercent: 0.5, feePerPassenger: 100 },
+    standard: { priceFactor: 1, changeFee: 75, refundPercent: 0.8, feePerPassenger: 0 },
+    flex: { priceFactor: 1.2, changeFee: 0, refundPercent: 1, feePerPassenger: 0 },
+  },
+};
+
+// Surcharge on a completely full flight; scales with the square of the load factor
+const LOAD_SURCHARGE = 0.6;
+
+// Basic fares stop selling once the flight is this full
+const BASIC_FARE_MAX_LOAD = 0.85;
+
+/**
+ * Price multipliers by days left before departure, checked in order.
+ */
+const ADVANCE_PURCHASE_TIERS: { minDays: number; multiplier: number }[] = [
+  { minDays: 60, multiplier: 0.9 },
+  { minDays: 21, multiplier: 1 },
+  { minDays: 7, multiplier: 1.15 },
+  { minDays: 3, multiplier: 1.3 },
+  { minDays: 0, multiplier: 1.5 },
+];
+
+/**
+ * Get the multiplier for booking a given number of days before departure.
+ */
+function advancePurchaseMultiplier(daysToDeparture: number): number {
+  return ADVANCE_PURCHASE_TIERS.find((tier) => daysToDeparture >= tier.minDays)?.multiplier ?? 1.5;
+}
+
+/**
+ * Price every fare bucket still on sale for a flight, cheapest first.
+ * Prices rise as seats sell and as departure approaches.
+ */
+export function priceFares(inputs: FareInputs, today: string = serverToday()): FareOption[] {
+  const loadFactor = inputs.totalSeats > 0 ? 1 - inputs.seatsAvailable / inputs.totalSeats : 1;
+  const demand = (1 + LOAD_SURCHARGE * loadFactor ** 2) * advancePurchaseMultiplier(daysBetween(today, inputs.departureDate));
+  const cabinName = inputs.cabinClass.charAt(0).toUpperCase() + inputs.cabinClass.slice(1);
+
+  return FARE_BUCKETS
+    .filter((bucket) => bucket !== "basic" || loadFactor < BASIC_FARE_MAX_LOAD)
+    .map((bucket) => {
+      const { priceFactor, ...rules } = BUCKET_RULES[inputs.cabinClass][bucket];
+      return {
+        bucket,
+        name: `${cabinName} ${bucket.charAt(0).toUpperCase()}${bucket.slice(1)}`,
+        price: Math.round(inputs.baseFare * priceFactor * demand),
+        ...rules,
+      };
+    });
+}
+
+/**
+ * Describe a fare's change and refund conditions in one line.
+ */
+export function describeFareRules(fare: FareOption): string {
+  const changes = fare.changeFee === null ? "no changes" : fare.changeFee === 0 ? "free changes" : `changes $${fare.changeFee}`;
+  const refund = fare.refundPercent === 0
+    ? "non-refundable"
+    : `${Math.round(fare.refundPercent * 100)}% refundable${fare.feePerPassenger > 0 ? ` less $${fare.feePerPassenger}` : ""}`;
+
+  return `${changes}, ${refund}`;
+}
@@ -3,9 +3,45 @@
  * Contains mock airport/airline data, flight search, seat selection, and booking logic.
  */
 
+import { now } from "./clock.js";
+import { assertValidDates, checkDateOrder, checkTravelDate } from "./dates.js";
+import { FareBucket, FareOption, FareRule, priceFares } from "./fares.js";
+import { addDays, daysBetween, greatCircleKm, utcToZonedTime, zonedTimeToUtc } from "./geo.js";
+import {
+  adjustBookingPoints,
+  BookingLoyalty,
+  calculatePointsEarned,
+  checkRedemption,
+  getLoyaltyAccount,
+  getOrCreateLoyaltyAccount,
+  getTierBenefits,
+  hasPerk,
+  reverseBookingPoints,
+  settleBookingPoints,
+} from "./loyalty.js";
+import { rankMatches } from "./matching.js";
+import {
+  AppliedPromo,
+  calculatePromoDiscount,
+  evaluatePromo,
+  getPromoRule,
+  PromoContext,
+  PromoErrorCode,
+  PromoFailure,
+  recordPromoUse,
+  releasePromoUse,
+} from "./promos.js";
+import { createSeededRandom, getDefaultSeed } from "./random.js";
+import { describeFieldErrors, FieldError, normalizeTraveller, PassportDetails, validatePassengers } from "./travellers.js";
+
 // Type definitions
 export type CabinClass = "economy" | "business" | "first";
 export type SeatStatus = "available" | "occupied" | "selected" | "exit";
+export type TripType = "one-way" | "round-trip" | "multi-city";
+export type BookingStatus = "confirmed" | "cancelled";
+export type FlightSortBy = "price" | "duration" | "departure" | "arrival";
+export type MealPreference = "none" | "standard" | "vegetarian" | "vegan" | "halal" | "kosher" | "gluten-free";
+export type PriceLineType = "fare" | "seats" | "extras" | "promo" | "points";
 
 /**
  * Represents an airport.
@@ -15,6 +51,9 @@ export interface Airport {
   city: string;
   name: string;
   country: string;
+  lat: number;
+  lon: number;
+  timezone: string; // IANA zone, e.g. "America/New_York"
 }
 
 /**
@@ -32,7 +71,7 @@ export interface Airline {
 export interface Seat {
   id: string; // e.g., "12A"
   row: number;
-  position: string; // A-F
+  position: string; // Seat letter, e.g. "A"
   status: SeatStatus;
   isWindow: boolean;
   isAisle: boolean;
@@ -40,6 +79,33 @@ export interface Seat {
   price: number; // Extra charge for premium seats
 }
 
+/**
+ * A lavatory or galley between two rows of a cabin.
+ */
+export interface CabinFacility {
+  beforeRow: number;
+  type: "lavatory" | "galley";
+}
+
+/**
+ * Seating plan of one cabin on an aircraft type.
+ */
+export interface SeatLayout {
+  columns: string[]; // Seat letters in each block between aisles, e.g. ["ABC", "DEFG", "HJK"]
+  firstRow: number;
+  lastRow: number;
+  exitRows: number[];
+  facilities: CabinFacility[];
+}
+
+/**
+ * A connection at an intermediate airport on a flight with stops.
+ */
+export interface Layover {
+  airport: Airport;
+  duration: string; // Time on the ground, e.g. "1h 45m"
+}
+
 /**
  * Represents a flight option.
  */
@@ -49,31 +115,150 @@ export interface Flight {
   flightNumber: string;
   origin: Airport;
   destination: Airport;
-  departureTime: string; // HH:MM
-  arrivalTime: string;
+  departureDate: string; // YYYY-MM-DD
+  departureTime: string; // HH:MM, local to the origin
+  arrivalDate: string; // YYYY-MM-DD, local to the destination
+  arrivalTime: string; // HH:MM, local to the destination
+  arrivalDayOffset: number; // Days between departure and arrival dates, e.g. 1 for "+1 day"
   duration: string; // e.g., "5h 30m"
+  durationMinutes: number;
   stops: number;
+  layovers: Layover[];
   aircraft: string;
-  price: number; // Per passenger
+  seatLayout: SeatLayout; // Layout of the searched cabin on this aircraft
+  baseFare: number; // Cabin fare before demand pricing
+  fares: FareOption[]; // Fare buckets on sale, cheapest first
+  price: number; // Lowest fare on sale, per passenger
   cabinClass: CabinClass;
   seatsAvailable: number;
+  seed: string; // Seed of the search that generated the flight, also used for its seat map and gates
+}
+
+/**
+ * Optional criteria that narrow the flights returned for each leg.
+ */
+export interface FlightFilters {
+  maxStops?: number;
+  airlines?: string[]; // Airline codes, e.g. ["BA", "AA"]
+  minPrice?: number;
+  maxPrice?: number;
+  departAfter?: string; // HH:MM, inclusive
+  departBefore?: string; // HH:MM, inclusive
+}
+
+/**
+ * Lowest fare found on one day of a fare calendar.
+ */
+export interface FareCalendarDay {
+  date: string; // YYYY-MM-DD
+  lowestFare: number | null; // Per passenger, null when nothing has enough seats
+  flightCount: number;
+  hasNonstop: boolean;
+}
+
+/**
+ * Lowest fares per day for a route over a date window.
+ */
+export interface FareCalendar {
+  origin: Airport;
+  destination: Airport;
+  cabinClass: CabinClass;
+  passengers: number;
+  days: FareCalendarDay[];
+  cheapestDate: string | null;
+}
+
+/**
+ * Requested origin, destination and date for one leg of an itinerary.
+ */
+export interface LegRequest {
+  origin: string;
+  destination: string;
+  departureDate: string;
+}
+
+/**
+ * Results and selections for a single leg of a flight search.
+ */
+export interface FlightLeg {
+  origin: string;
+  destination: string;
+  date: string;
+  flights: Flight[];
+  unfilteredCount: number; // Flights on the route before filters were applied
+  selectedFlightId?: string;
+  selectedFare?: FareBucket;
+  selectedSeats?: string[];
+}
+
+/**
+ * Add-on prices for one cabin class. Per-passenger prices apply on every leg.
+ */
+export interface ExtrasPricing {
+  checkedBags: number[]; // Price of the 1st, 2nd and 3rd bag
+  meal: number;
+  priorityBoarding: number;
+  insurancePercent: number; // Share of the total fare
+}
+
+/**
+ * Add-ons chosen for one passenger.
+ */
+export interface PassengerExtras {
+  checkedBags: number;
+  meal: MealPreference;
+  priorityBoarding: boolean;
+}
+
+/**
+ * Add-ons chosen for a whole booking.
+ */
+export interface BookingExtras {
+  passengers: PassengerExtras[];
+  insurance: boolean;
+}
+
+/**
+ * One itemised line of a booking price.
+ */
+export interface PriceLine {
+  type: PriceLineType;
+  label: string;
+  amount: number;
+}
+
+/**
+ * A fare whose price moved between the search and the booking.
+ */
+export interface PriceChange {
+  legIndex: number;
+  route: string; // e.g. "JFK → LHR"
+  fareName: string;
+  previousPrice: number; // Per passenger, as shown in the search
+  newPrice: number; // Per passenger, at booking time
 }
 
 /**
- * Represents a flight search result with multiple flights.
+ * Represents a flight search result with one result set per leg.
  */
 export interface FlightSearch {
   id: string;
-  flights: Flight[];
+  tripType: TripType;
+  legs: FlightLeg[];
   searchParams: {
     origin: string;
     destination: string;
     date: string;
+    returnDate?: string;
     passengers: number;
     cabinClass: CabinClass;
+    seed: string;
+    filters?: FlightFilters;
+    sortBy: FlightSortBy;
   };
-  selectedFlightId?: string;
-  selectedSeats?: string[];
+  extrasPricing: ExtrasPricing;
+  extras?: BookingExtras;
+  promoCode?: string; // Applied with applyFlightPromo and checked again at booking
 }
 
 /**
@@ -82,40 +267,79 @@ export interface FlightSearch {
 export interface Passenger {
   name: string;
   email: string;
-  phone: string;
+  phone: string; // E.164, e.g. "+14155550100"
+  dateOfBirth?: string; // YYYY-MM-DD
+  passport?: PassportDetails; // Required on international routes
+}
+
+/**
+ * A booked flight and the seats held on it.
+ * Seats are empty until check-in when none were selected.
+ */
+export interface BookedLeg {
+  flight: Flight;
+  fare: FareOption; // Fare bucket and price paid
+  seats: string[];
+  seatFees: number;
 }
 
 /**
- * Represents a completed booking.
+ * Represents a completed booking covering every leg of the trip.
  */
 export interface Booking {
   confirmationNumber: string;
-  flight: Flight;
+  status: BookingStatus;
+  tripType: TripType;
+  legs: BookedLeg[];
   passengers: Passenger[];
-  seats: string[];
-  totalPrice: number;
+  extras: BookingExtras;
+  priceBreakdown: PriceLine[];
+  totalPrice: number; // Sum of the price breakdown
+  promo?: AppliedPromo;
+  loyalty: BookingLoyalty; // Points for the lead passenger's account
   bookedAt: string;
+  cancelledAt?: string;
+  refundAmount?: number;
+}
+
+/**
+ * A temporary claim on a seat by a search session that has not booked yet.
+ */
+export interface SeatHold {
+  searchId: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Live occupancy for one cabin of a physical flight (flight number + date + cabin).
+ * Starts from the seeded seat map and is updated by holds and bookings.
+ */
+export interface SeatInventory {
+  baseMap: Seat[][];
+  booked: Set<string>;
+  holds: Map<string, SeatHold>;
+  unassigned: number; // Passengers booked without a seat, who are given one at check-in
 }
 
 /**
  * Mock airport database with 15 airports.
  */
 const AIRPORTS: Airport[] = [
-  { code: "JFK", city: "New York", name: "John F. Kennedy International", country: "US" },
-  { code: "LAX", city: "Los Angeles", name: "Los Angeles International", country: "US" },
-  { code: "LHR", city: "London", name: "Heathrow", country: "UK" },
-  { code: "CDG", city: "Paris", name: "Charles de Gaulle", country: "FR" },
-  { code: "NRT", city: "Tokyo", name: "Narita International", country: "JP" },
-  { code: "DXB", city: "Dubai", name: "Dubai International", country: "AE" },
-  { code: "SIN", city: "Singapore", name: "Changi", country: "SG" },
-  { code: "SFO", city: "San Francisco", name: "San Francisco International", country: "US" },
-  { code: "ORD", city: "Chicago", name: "O'Hare International", country: "US" },
-  { code: "MIA", city: "Miami", name: "Miami International", country: "US" },
-  { code: "SEA", city: "Seattle", name: "Seattle-Tacoma International", country: "US" },
-  { code: "BOS", city: "Boston", name: "Logan International", country: "US" },
-  { code: "FRA", city: "Frankfurt", name: "Frankfurt am Main", country: "DE" },
-  { code: "HKG", city: "Hong Kong", name: "Hong Kong International", country: "HK" },
-  { code: "SYD", city: "Sydney", name: "Sydney Kingsford Smith", country: "AU" },
+  { code: "JFK", city: "New York", name: "John F. Kennedy International", country: "US", lat: 40.6413, lon: -73.7781, timezone: "America/New_York" },
+  { code: "LAX", city: "Los Angeles", name: "Los Angeles International", country: "US", lat: 33.9416, lon: -118.4085, timezone: "America/Los_Angeles" },
+  { code: "LHR", city: "London", name: "Heathrow", country: "UK", lat: 51.47, lon: -0.4543, timezone: "Europe/London" },
+  { code: "CDG", city: "Paris", name: "Charles de Gaulle", country: "FR", lat: 49.0097, lon: 2.5479, timezone: "Europe/Paris" },
+  { code: "NRT", city: "Tokyo", name: "Narita International", country: "JP", lat: 35.772, lon: 140.3929, timezone: "Asia/Tokyo" },
+  { code: "DXB", city: "Dubai", name: "Dubai International", country: "AE", lat: 25.2532, lon: 55.3657, timezone: "Asia/Dubai" },
+  { code: "SIN", city: "Singapore", name: "Changi", country: "SG", lat: 1.3644, lon: 103.9915, timezone: "Asia/Singapore" },
+  { code: "SFO", city: "San Francisco", name: "San Francisco International", country: "US", lat: 37.6213, lon: -122.379, timezone: "America/Los_Angeles" },
+  { code: "ORD", city: "Chicago", name: "O'Hare International", country: "US", lat: 41.9742, lon: -87.9073, timezone: "America/Chicago" },
+  { code: "MIA", city: "Miami", name: "Miami International", country: "US", lat: 25.7959, lon: -80.287, timezone: "America/New_York" },
+  { code: "SEA", city: "Seattle", name: "Seattle-Tacoma International", country: "US", lat: 47.4502, lon: -122.3088, timezone: "America/Los_Angeles" },
+  { code: "BOS", city: "Boston", name: "Logan International", country: "US", lat: 42.3656, lon: -71.0096, timezone: "America/New_York" },
+  { code: "FRA", city: "Frankfurt", name: "Frankfurt am Main", country: "DE", lat: 50.0379, lon: 8.5622, timezone: "Europe/Berlin" },
+  { code: "HKG", city: "Hong Kong", name: "Hong Kong International", country: "HK", lat: 22.308, lon: 113.9185, timezone: "Asia/Hong_Kong" },
+  { code: "SYD", city: "Sydney", name: "Sydney Kingsford Smith", country: "AU", lat: -33.9399, lon: 151.1753, timezone: "Australia/Sydney" },
 ];
 
 /**
@@ -130,22 +354,167 @@ const AIRLINES: Airline[] = [
   { code: "SQ", name: "Singapore Airlines", color: "#00246B" },
 ];
 
+/**
+ * Cabin layouts per aircraft type. Premium cabins sit at the front with their
+ * own row numbers, so seat IDs never repeat across cabins on one aircraft.
+ */
+const AIRCRAFT_LAYOUTS: Record<string, Record<CabinClass, SeatLayout>> = {
+  "Boeing 737-800": {
+    first: { columns: ["AC", "DF"], firstRow: 1, lastRow: 2, exitRows: [], facilities: [] },
+    business: { columns: ["AC", "DF"], firstRow: 3, lastRow: 6, exitRows: [], facilities: [] },
+    economy: {
+      columns: ["ABC", "DEF"],
+      firstRow: 7,
+      lastRow: 30,
+      exitRows: [15, 16],
+      facilities: [{ beforeRow: 7, type: "galley" }],
+    },
+  },
+  "Boeing 777-300ER": {
+    first: { columns: ["A", "DG", "K"], firstRow: 1, lastRow: 2, exitRows: [], facilities: [] },
+    business: {
+      columns: ["A", "DG", "K"],
+      firstRow: 6,
+      lastRow: 15,
+      exitRows: [],
+      facilities: [{ beforeRow: 11, type: "lavatory" }],
+    },
+    economy: {
+      columns: ["ABC", "DEFG", "HJK"],
+      firstRow: 30,
+      lastRow: 54,
+      exitRows: [30, 42],
+      facilities: [{ beforeRow: 30, type: "galley" }, { beforeRow: 42, type: "lavatory" }],
+    },
+  },
+  "Boeing 787-9": {
+    first: { columns: ["A", "E", "K"], firstRow: 1, lastRow: 3, exitRows: [], facilities: [] },
+    business: { columns: ["A", "DG", "K"], firstRow: 4, lastRow: 11, exitRows: [], facilities: [] },
+    economy: {
+      columns: ["ABC", "DEF", "HJK"],
+      firstRow: 20,
+      lastRow: 42,
+      exitRows: [20, 31],
+      facilities: [{ beforeRow: 20, type: "galley" }, { beforeRow: 31, type: "lavatory" }],
+    },
+  },
+  "Airbus A320neo": {
+    first: { columns: ["AC", "DF"], firstRow: 1, lastRow: 2, exitRows: [], facilities: [] },
+    business: { columns: ["AC", "DF"], firstRow: 3, lastRow: 5, exitRows: [], facilities: [] },
+    economy: {
+      columns: ["ABC", "DEF"],
+      firstRow: 6,
+      lastRow: 29,
+      exitRows: [12, 13],
+      facilities: [{ beforeRow: 6, type: "lavatory" }],
+    },
+  },
+  "Airbus A350-900": {
+    first: { columns: ["A", "DG", "K"], firstRow: 1, lastRow: 2, exitRows: [], facilities: [] },
+    business: {
+      columns: ["A", "DG", "K"],
+      firstRow: 3,
+      lastRow: 12,
+      exitRows: [],
+      facilities: [{ beforeRow: 8, type: "galley" }],
+    },
+    economy: {
+      columns: ["ABC", "DEF", "HJK"],
+      firstRow: 30,
+      lastRow: 55,
+      exitRows: [30, 43],
+      facilities: [{ beforeRow: 30, type: "galley" }, { beforeRow: 43, type: "lavatory" }],
+    },
+  },
+  "Airbus A380-800": {
+    first: { columns: ["A", "EF", "K"], firstRow: 1, lastRow: 4, exitRows: [], facilities: [] },
+    business: {
+      columns: ["A", "EF", "K"],
+      firstRow: 6,
+      lastRow: 22,
+      exitRows: [],
+      facilities: [{ beforeRow: 12, type: "galley" }, { beforeRow: 18, type: "lavatory" }],
+    },
+    economy: {
+      columns: ["ABC", "DEFG", "HJK"],
+      firstRow: 43,
+      lastRow: 80,
+      exitRows: [43, 57, 70],
+      facilities: [
+        { beforeRow: 43, type: "galley" },
+        { beforeRow: 57, type: "lavatory" },
+        { beforeRow: 70, type: "lavatory" },
+      ],
+    },
+  },
+};
+
 /**
  * Aircraft types for variety.
  */
-const AIRCRAFT_TYPES = [
-  "Boeing 737-800",
-  "Boeing 777-300ER",
-  "Boeing 787-9",
-  "Airbus A320neo",
-  "Airbus A350-900",
-  "Airbus A380-800",
-];
+const AIRCRAFT_TYPES = Object.keys(AIRCRAFT_LAYOUTS);
+
+/**
+ * Seat selection fees by seat type. Premium cabins include seat selection.
+ */
+const SEAT_FEES: Record<CabinClass, { exit: number; window: number; aisle: number }> = {
+  economy: { exit: 35, window: 15, aisle: 10 },
+  business: { exit: 0, window: 0, aisle: 0 },
+  first: { exit: 0, window: 0, aisle: 0 },
+};
+
+// Loyalty points earned per dollar of fare, by cabin
+const POINTS_PER_FARE_DOLLAR: Record<CabinClass, number> = {
+  economy: 2,
+  business: 3,
+  first: 4,
+};
 
 // In-memory storage for flight searches and bookings
 export const flightSearches: Map<string, FlightSearch> = new Map();
 export const bookings: Map<string, Booking> = new Map();
 
+// Seat inventory per physical flight, shared across search sessions and created once a flight is selected
+export const seatInventories: Map<string, SeatInventory> = new Map();
+
+// Physical flights the airline has cancelled, keyed by getPhysicalFlightKey; searches leave them out
+export const cancelledFlights: Set<string> = new Set();
+
+// How long selected seats stay reserved for a search session
+const SEAT_HOLD_MS = 10 * 60 * 1000;
+
+// Average block speed used to turn great-circle distance into flight time
+const CRUISE_SPEED_KMH = 850;
+
+// Extra time for taxi, climb and descent on every flight segment
+const SEGMENT_OVERHEAD_MINUTES = 30;
+
+// Routes shorter than this are always flown nonstop
+const MIN_CONNECTING_DISTANCE_KM = 1500;
+
+// A connection may add at most this share of the remaining distance
+const MAX_LAYOVER_DETOUR = 0.25;
+
+// Longest date window a fare calendar can cover
+const MAX_CALENDAR_DAYS = 31;
+
+// Bookings cancelled within this window are refunded in full
+const FREE_CANCELLATION_MS = 24 * 60 * 60 * 1000;
+
+// Cancellation terms for bookings with travel insurance
+const INSURED_FARE_RULE: FareRule = { refundPercent: 1, feePerPassenger: 0 };
+
+/**
+ * Add-on prices per cabin class. Premium cabins include most extras.
+ */
+const EXTRAS_PRICING: Record<CabinClass, ExtrasPricing> = {
+  economy: { checkedBags: [35, 45, 100], meal: 15, priorityBoarding: 25, insurancePercent: 0.06 },
+  business: { checkedBags: [0, 0, 75], meal: 0, priorityBoarding: 0, insurancePercent: 0.05 },
+  first: { checkedBags: [0, 0, 0], meal: 0, priorityBoarding: 0, insurancePercent: 0.04 },
+};
+
+const MEAL_PREFERENCES: MealPreference[] = ["none", "standard", "vegetarian", "vegan", "halal", "kosher", "gluten-free"];
+
 /**
  * Get all airports.
  */
@@ -160,6 +529,45 @@ export function getAirportByCode(code: string): Airport | undefined {
   return AIRPORTS.find((a) => a.code.toUpperCase() === code.toUpperCase());
 }
 
+/**
+ * Check whether a route between two airport codes crosses a border.
+ */
+export function isInternationalRoute(origin: string, destination: string): boolean {
+  return getAirportByCode(origin)?.country !== getAirportByCode(destination)?.country;
+}
+
+/**
+ * Find airports matching a code, city or airport name, best match first.
+ */
+export function findAirports(query: string): { airport: Airport; score: number }[] {
+  return rankMatches(query, AIRPORTS, (a) => [a.code, a.city, a.name]).map(({ item, score }) => ({
+    airport: { ...item },
+    score,
+  }));
+}
+
+/**
+ * Resolve free-form input such as "JFK", "New York" or "Heathrow" to one airport.
+ * Only exact or prefix matches resolve; anything vaguer fails with suggestions.
+ */
+export function resolveAirport(query: string): Airport {
+  const byCode = getAirportByCode(query.trim());
+  if (byCode) return byCode;
+
+  const matches = findAirports(query);
+  const [best, runnerUp] = matches;
+  if (best && best.score >= 80 && (!runnerUp || runnerUp.score < best.score)) {
+    return getAirportByCode(best.airport.code)!;
+  }
+
+  const suggestions = matches.slice(0, 3).map((m) => `${m.airport.city} (${m.airport.code})`);
+  throw new Error(
+    suggestions.length > 0
+      ? `Unknown airport: ${query}. Did you mean ${suggestions.join(", ")}?`
+      : `Unknown airport: ${query}`
+  );
+}
+
 /**
  * Generate a unique search ID.
  */
@@ -168,10 +576,17 @@ function generateSearchId(): string {
 }
 
 /**
- * Generate a unique flight ID.
+ * Generate a flight ID that is stable for the same route, flight, date and cabin.
+ * Flight numbers repeat across routes, so the route is part of the ID.
  */
-function generateFlightId(): string {
-  return `flight-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+function generateFlightId(
+  origin: string,
+  destination: string,
+  flightNumber: string,
+  departureDate: string,
+  cabinClass: CabinClass
+): string {
+  return `flight-${origin}-${destination}-${flightNumber}-${departureDate}-${cabinClass}`;
 }
 
 /**
@@ -187,34 +602,55 @@ function generateConfirmationNumber(): string {
 }
 
 /**
- * Calculate approximate flight duration based on airport codes.
- * Uses simple distance estimation.
+ * Format a number of minutes as a duration, e.g. "5h 30m".
  */
-function calculateDuration(origin: string, destination: string): { duration: string; hours: number } {
-  // Simplified distance matrix (hours of flight time)
-  const distances: Record<string, Record<string, number>> = {
-    JFK: { LAX: 5.5, LHR: 7, CDG: 7.5, NRT: 14, DXB: 12, SIN: 18, SFO: 6, ORD: 2.5, MIA: 3, SEA: 6, BOS: 1.5, FRA: 8, HKG: 16, SYD: 21 },
-    LAX: { JFK: 5.5, LHR: 10, CDG: 11, NRT: 11, DXB: 16, SIN: 17, SFO: 1.5, ORD: 4, MIA: 5, SEA: 2.5, BOS: 5.5, FRA: 11, HKG: 14, SYD: 15 },
-    LHR: { JFK: 7, LAX: 10, CDG: 1, NRT: 11.5, DXB: 7, SIN: 13, SFO: 10.5, ORD: 8.5, MIA: 9, SEA: 10, BOS: 7, FRA: 1.5, HKG: 12, SYD: 21 },
-    CDG: { JFK: 7.5, LAX: 11, LHR: 1, NRT: 12, DXB: 6.5, SIN: 12.5, SFO: 11, ORD: 9, MIA: 9.5, SEA: 10.5, BOS: 7.5, FRA: 1, HKG: 11.5, SYD: 21.5 },
-    SFO: { JFK: 6, LAX: 1.5, LHR: 10.5, CDG: 11, NRT: 10, DXB: 16, SIN: 16, ORD: 4.5, MIA: 5.5, SEA: 2, BOS: 5.5, FRA: 11, HKG: 13, SYD: 14 },
-  };
+function formatDuration(totalMinutes: number): string {
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m > 0 ? `${h}h ${m}m` : `${h}h`;
+}
 
-  // Get hours, default to 5 if not found
-  const hours = distances[origin]?.[destination] || distances[destination]?.[origin] || 5;
-  const h = Math.floor(hours);
-  const m = Math.round((hours - h) * 60);
+/**
+ * Calculate the flying time between two airports from their great-circle
+ * distance, rounded to 5 minutes.
+ */
+function calculateSegmentMinutes(origin: Airport, destination: Airport): number {
+  const minutes = (greatCircleKm(origin, destination) / CRUISE_SPEED_KMH) * 60 + SEGMENT_OVERHEAD_MINUTES;
+  return Math.round(minutes / 5) * 5;
+}
 
-  return {
-    duration: m > 0 ? `${h}h ${m}m` : `${h}h`,
-    hours,
-  };
+/**
+ * Pick connecting airports for a flight with stops.
+ * Each stop is chosen among the hubs that add the least distance to the rest of
+ * the route; fewer hubs are returned when no airport lies close enough to it.
+ */
+function pickLayoverAirports(origin: Airport, destination: Airport, stops: number, random: () => number): Airport[] {
+  const hubs: Airport[] = [];
+  let from = origin;
+
+  for (let i = 0; i < stops; i++) {
+    const remainingKm = greatCircleKm(from, destination);
+    const candidates = AIRPORTS
+      .filter((a) => a.code !== origin.code && a.code !== destination.code && !hubs.includes(a))
+      .map((a) => ({ airport: a, detour: greatCircleKm(from, a) + greatCircleKm(a, destination) - remainingKm }))
+      .filter((c) => c.detour <= remainingKm * MAX_LAYOVER_DETOUR)
+      .sort((a, b) => a.detour - b.detour)
+      .slice(0, 3);
+    if (candidates.length === 0) break;
+
+    const hub = candidates[Math.floor(random() * candidates.length)].airport;
+    hubs.push(hub);
+    from = hub;
+  }
+
+  return hubs;
 }
 
 /**
  * Generate departure times spread throughout the day.
  */
-function generateDepartureTimes(count: number): string[] {
+function generateDepartureTimes(count: number, random: () => number): string[] {
   const times: string[] = [];
   const startHour = 6; // First flight at 6 AM
   const endHour = 22; // Last flight at 10 PM
@@ -222,7 +658,7 @@ function generateDepartureTimes(count: number): string[] {
 
   for (let i = 0; i < count; i++) {
     const hour = Math.floor(startHour + i * interval);
-    const minute = Math.floor(Math.random() * 4) * 15; // 0, 15, 30, or 45
+    const minute = Math.floor(random() * 4) * 15; // 0, 15, 30, or 45
     times.push(`${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`);
   }
 
@@ -230,25 +666,14 @@ function generateDepartureTimes(count: number): string[] {
 }
 
 /**
- * Calculate arrival time given departure and duration.
- */
-function calculateArrivalTime(departure: string, durationHours: number): string {
-  const [depHour, depMinute] = departure.split(":").map(Number);
-  const totalMinutes = depHour * 60 + depMinute + durationHours * 60;
-  const arrHour = Math.floor(totalMinutes / 60) % 24;
-  const arrMinute = Math.floor(totalMinutes % 60);
-  return `${arrHour.toString().padStart(2, "0")}:${arrMinute.toString().padStart(2, "0")}`;
-}
-
-/**
- * Generate a random price based on distance and class.
+ * Generate a seeded base fare based on distance and class.
  */
-function generatePrice(durationHours: number, cabinClass: CabinClass): number {
+function generateBaseFare(durationHours: number, cabinClass: CabinClass, random: () => number): number {
   // Base price: ~$50 per hour of flight
   let basePrice = durationHours * 50 + 100;
 
   // Add variance
-  basePrice *= 0.8 + Math.random() * 0.4;
+  basePrice *= 0.8 + random() * 0.4;
 
   // Multiply by class
   const classMultiplier = cabinClass === "first" ? 4 : cabinClass === "business" ? 2.5 : 1;
@@ -256,69 +681,281 @@ function generatePrice(durationHours: number, cabinClass: CabinClass): number {
   return Math.round(basePrice * classMultiplier);
 }
 
+/**
+ * Generate the flight options for one origin/destination pair on a date.
+ * The schedule is seeded by route and date only, so every cabin class sees
+ * the same flights.
+ */
+function generateLegFlights(
+  originAirport: Airport,
+  destAirport: Airport,
+  departureDate: string,
+  cabinClass: CabinClass,
+  seed: string
+): Flight[] {
+  const random = createSeededRandom(seed, originAirport.code, destAirport.code, departureDate);
+  const directKm = greatCircleKm(originAirport, destAirport);
+  const directHours = calculateSegmentMinutes(originAirport, destAirport) / 60;
+
+  // Generate 5-8 flight options
+  const flightCount = 5 + Math.floor(random() * 4);
+  const departureTimes = generateDepartureTimes(flightCount, random);
+  const usedFlightNumbers = new Set<string>();
+
+  const flights: Flight[] = departureTimes.map((depTime, index) => {
+    const airline = AIRLINES[index % AIRLINES.length];
+    let flightNum: string;
+    do {
+      flightNum = `${airline.code}${100 + Math.floor(random() * 900)}`;
+    } while (usedFlightNumbers.has(flightNum));
+    usedFlightNumbers.add(flightNum);
+
+    const baseFare = generateBaseFare(directHours, cabinClass, random);
+    const requestedStops = directKm < MIN_CONNECTING_DISTANCE_KM ? 0 : random() < 0.7 ? 0 : random() < 0.7 ? 1 : 2;
+
+    // Walk the route segment by segment, adding 45m-3h on the ground at each stop
+    const hubs = pickLayoverAirports(originAirport, destAirport, requestedStops, random);
+    const route = [originAirport, ...hubs, destAirport];
+    const layovers: Layover[] = [];
+    let totalMinutes = 0;
+    for (let i = 1; i < route.length; i++) {
+      totalMinutes += calculateSegmentMinutes(route[i - 1], route[i]);
+      if (i < route.length - 1) {
+        const groundMinutes = 45 + Math.floor(random() * 10) * 15;
+        layovers.push({ airport: route[i], duration: formatDuration(groundMinutes) });
+        totalMinutes += groundMinutes;
+      }
+    }
+
+    const departsAt = zonedTimeToUtc({ date: departureDate, time: depTime }, originAirport.timezone);
+    const arrival = utcToZonedTime(departsAt + totalMinutes * 60 * 1000, destAirport.timezone);
+    const aircraft = AIRCRAFT_TYPES[Math.floor(random() * AIRCRAFT_TYPES.length)];
+
+    const flight: Flight = {
+      id: generateFlightId(originAirport.code, destAirport.code, flightNum, departureDate, cabinClass),
+      airline,
+      flightNumber: flightNum,
+      origin: originAirport,
+      destination: destAirport,
+      departureDate,
+      departureTime: depTime,
+      arrivalDate: arrival.date,
+      arrivalTime: arrival.time,
+      arrivalDayOffset: daysBetween(departureDate, arrival.date),
+      duration: formatDuration(totalMinutes),
+      durationMinutes: totalMinutes,
+      stops: layovers.length,
+      layovers,
+      aircraft,
+      seatLayout: AIRCRAFT_LAYOUTS[aircraft][cabinClass],
+      baseFare,
+      fares: [],
+      price: 0,
+      cabinClass,
+      seatsAvailable: 0,
+      seed,
+    };
+
+    // Availability and fares reflect earlier bookings, without storing an inventory for every result
+    const seatMap = previewSeatMap(flight);
+    flight.seatsAvailable = countAvailableSeats(flight, seatMap);
+    flight.fares = priceFlight(flight, seatMap);
+    flight.price = flight.fares[0].price;
+
+    return flight;
+  });
+
+  // Sort by departure time, leaving out flights the airline has cancelled
+  flights.sort((a, b) => a.departureTime.localeCompare(b.departureTime));
+
+  return flights.filter((flight) => !cancelledFlights.has(getPhysicalFlightKey(flight)));
+}
+
+/**
+ * Check filters before searching so bad input is reported once, not per leg.
+ */
+function validateFilters(filters: FlightFilters): void {
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+  if (filters.maxStops !== undefined && (!Number.isInteger(filters.maxStops) || filters.maxStops < 0)) {
+    throw new Error("maxStops must be a whole number of 0 or more");
+  }
+
+  for (const [name, value] of [["departAfter", filters.departAfter], ["departBefore", filters.departBefore]]) {
+    if (value !== undefined && !timePattern.test(value)) {
+      throw new Error(`${name} must be a time in HH:MM format`);
+    }
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    throw new Error("minPrice cannot be greater than maxPrice");
+  }
+
+  if (filters.departAfter && filters.departBefore && filters.departAfter > filters.departBefore) {
+    throw new Error("departAfter cannot be later than departBefore");
+  }
+}
+
+/**
+ * Keep only the flights that match every filter that is set.
+ */
+function applyFilters(flights: Flight[], filters: FlightFilters): Flight[] {
+  const airlines = filters.airlines?.map((code) => code.toUpperCase());
+
+  // HH:MM strings compare correctly as strings
+  return flights.filter((f) =>
+    (filters.maxStops === undefined || f.stops <= filters.maxStops)
+    && (!airlines?.length || airlines.includes(f.airline.code))
+    && (filters.minPrice === undefined || f.price >= filters.minPrice)
+    && (filters.maxPrice === undefined || f.price <= filters.maxPrice)
+    && (!filters.departAfter || f.departureTime >= filters.departAfter)
+    && (!filters.departBefore || f.departureTime <= filters.departBefore)
+  );
+}
+
+/**
+ * Sort flights in place, breaking ties by departure time.
+ */
+function sortFlights(flights: Flight[], sortBy: FlightSortBy): Flight[] {
+  const arrivalKey = (f: Flight) => `${f.arrivalDate} ${f.arrivalTime}`;
+  const compare: Record<FlightSortBy, (a: Flight, b: Flight) => number> = {
+    price: (a, b) => a.price - b.price,
+    duration: (a, b) => a.durationMinutes - b.durationMinutes,
+    departure: () => 0,
+    arrival: (a, b) => arrivalKey(a).localeCompare(arrivalKey(b)),
+  };
+
+  return flights.sort((a, b) => compare[sortBy](a, b) || a.departureTime.localeCompare(b.departureTime));
+}
+
+/**
+ * Validate every date of a trip and check the flights are in date order.
+ * Throws a DateValidationError naming each date field at fault.
+ */
+function validateTripDates(departureDate: string, returnDate: string | undefined, additionalLegs: LegRequest[]): void {
+  const dates = [
+    { field: "departureDate", label: "Departure date", value: departureDate },
+    ...(returnDate ? [{ field: "returnDate", label: "Return date", value: returnDate }] : []),
+    ...additionalLegs.map((leg, index) => ({
+      field: `additionalLegs.${index}.departureDate`,
+      label: `Flight ${index + 2} date`,
+      value: leg.departureDate,
+    })),
+  ];
+
+  assertValidDates(dates.map((d) => checkTravelDate(d.field, d.label, d.value)));
+
+  // Each flight can leave the same day as the one before it, but not earlier
+  assertValidDates(dates.slice(1).map((d, index) => checkDateOrder(d.field, d.label, d.value, {
+    date: dates[index].value,
+    label: dates[index].label.toLowerCase(),
+    minDays: 0,
+  })));
+}
+
 /**
  * Search for flights between two airports.
+ * A return date makes it a round trip; additional legs make it a multi-city
+ * itinerary flown in order after the first leg.
+ * Filters and sorting apply to every leg.
+ * Results are reproducible for the same seed and parameters.
  */
 export function searchFlights(params: {
   origin: string;
   destination: string;
   departureDate: string;
+  returnDate?: string;
+  additionalLegs?: LegRequest[];
   passengers: number;
   cabinClass?: CabinClass;
+  seed?: string;
+  filters?: FlightFilters;
+  sortBy?: FlightSortBy;
 }): FlightSearch {
-  const { origin, destination, departureDate, passengers, cabinClass = "economy" } = params;
-
-  const originAirport = getAirportByCode(origin);
-  const destAirport = getAirportByCode(destination);
+  const {
+    origin,
+    destination,
+    departureDate,
+    returnDate,
+    additionalLegs = [],
+    passengers,
+    cabinClass = "economy",
+    seed = getDefaultSeed(),
+    filters,
+    sortBy = "departure",
+  } = params;
+
+  if (filters) {
+    validateFilters(filters);
+  }
 
-  if (!originAirport || !destAirport) {
-    throw new Error(`Invalid airport code: ${!originAirport ? origin : destination}`);
+  if (returnDate && additionalLegs.length > 0) {
+    throw new Error("A search can have a return date or additional legs, not both");
   }
 
-  const searchId = generateSearchId();
-  const { duration, hours } = calculateDuration(origin, destination);
+  validateTripDates(departureDate, returnDate, additionalLegs);
 
-  // Generate 5-8 flight options
-  const flightCount = 5 + Math.floor(Math.random() * 4);
-  const departureTimes = generateDepartureTimes(flightCount);
+  const tripType: TripType = additionalLegs.length > 0 ? "multi-city" : returnDate ? "round-trip" : "one-way";
 
-  const flights: Flight[] = departureTimes.map((depTime, index) => {
-    const airline = AIRLINES[index % AIRLINES.length];
-    const flightNum = `${airline.code}${100 + Math.floor(Math.random() * 900)}`;
-    const price = generatePrice(hours, cabinClass);
-    const stops = Math.random() < 0.7 ? 0 : Math.random() < 0.7 ? 1 : 2;
-    const seatsAvailable = 10 + Math.floor(Math.random() * 50);
+  const requests: LegRequest[] = [{ origin, destination, departureDate }];
+  if (returnDate) {
+    requests.push({ origin: destination, destination: origin, departureDate: returnDate });
+  }
+  requests.push(...additionalLegs);
+
+  // Resolve every leg first so repeated legs are caught however they were written
+  const resolved = requests.map((leg) => ({
+    originAirport: resolveAirport(leg.origin),
+    destAirport: resolveAirport(leg.destination),
+    departureDate: leg.departureDate,
+  }));
+
+  const legs: FlightLeg[] = resolved.map(({ originAirport, destAirport, departureDate: legDate }, index) => {
+    if (originAirport.code === destAirport.code) {
+      throw new Error(`Leg ${index + 1} has the same origin and destination`);
+    }
+
+    // Flight IDs are per route and date, so a repeated leg would be ambiguous
+    const repeated = resolved.findIndex(
+      (other) => other.originAirport.code === originAirport.code
+        && other.destAirport.code === destAirport.code
+        && other.departureDate === legDate
+    );
+    if (repeated < index) {
+      throw new Error(`Leg ${index + 1} repeats leg ${repeated + 1}`);
+    }
+
+    // Premium cabins are small, so larger parties may not fit on every flight
+    const flights = generateLegFlights(originAirport, destAirport, legDate, cabinClass, seed)
+      .filter((f) => f.seatsAvailable >= passengers);
 
     return {
-      id: generateFlightId(),
-      airline,
-      flightNumber: flightNum,
-      origin: originAirport,
-      destination: destAirport,
-      departureTime: depTime,
-      arrivalTime: calculateArrivalTime(depTime, hours + stops * 1.5),
-      duration: stops > 0 ? `${Math.floor(hours + stops * 1.5)}h ${Math.round(((hours + stops * 1.5) % 1) * 60)}m` : duration,
-      stops,
-      aircraft: AIRCRAFT_TYPES[Math.floor(Math.random() * AIRCRAFT_TYPES.length)],
-      price,
-      cabinClass,
-      seatsAvailable,
+      origin: originAirport.code,
+      destination: destAirport.code,
+      date: legDate,
+      flights: sortFlights(filters ? applyFilters(flights, filters) : flights, sortBy),
+      unfilteredCount: flights.length,
     };
   });
 
-  // Sort by departure time
-  flights.sort((a, b) => a.departureTime.localeCompare(b.departureTime));
+  const searchId = generateSearchId();
 
   const search: FlightSearch = {
     id: searchId,
-    flights,
+    tripType,
+    legs,
     searchParams: {
-      origin,
-      destination,
+      origin: legs[0].origin,
+      destination: legs[0].destination,
       date: departureDate,
+      returnDate,
       passengers,
       cabinClass,
+      seed,
+      filters,
+      sortBy,
     },
+    extrasPricing: { ...EXTRAS_PRICING[cabinClass] },
   };
 
   // Store search for later reference
@@ -327,6 +964,72 @@ export function searchFlights(params: {
   return search;
 }
 
+/**
+ * Find the lowest fare per day for a route, starting at a date.
+ * Uses the same flights a full search on each day would return.
+ */
+export function searchFareCalendar(params: {
+  origin: string;
+  destination: string;
+  startDate: string;
+  days?: number;
+  passengers?: number;
+  cabinClass?: CabinClass;
+  seed?: string;
+}): FareCalendar {
+  const {
+    origin,
+    destination,
+    startDate,
+    days = 7,
+    passengers = 1,
+    cabinClass = "economy",
+    seed = getDefaultSeed(),
+  } = params;
+
+  const originAirport = resolveAirport(origin);
+  const destAirport = resolveAirport(destination);
+
+  if (originAirport.code === destAirport.code) {
+    throw new Error("Origin and destination must be different");
+  }
+
+  assertValidDates([checkTravelDate("startDate", "Start date", startDate)]);
+
+  if (days < 1 || days > MAX_CALENDAR_DAYS) {
+    throw new Error(`A fare calendar can cover 1-${MAX_CALENDAR_DAYS} days`);
+  }
+
+  const calendarDays: FareCalendarDay[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(startDate, i);
+    const bookable = generateLegFlights(originAirport, destAirport, date, cabinClass, seed)
+      .filter((f) => f.seatsAvailable >= passengers);
+
+    calendarDays.push({
+      date,
+      lowestFare: bookable.length > 0 ? Math.min(...bookable.map((f) => f.price)) : null,
+      flightCount: bookable.length,
+      hasNonstop: bookable.some((f) => f.stops === 0),
+    });
+  }
+
+  // Earliest day wins a tie
+  const cheapest = calendarDays.reduce<FareCalendarDay | null>(
+    (best, day) => day.lowestFare !== null && (best === null || day.lowestFare < best.lowestFare!) ? day : best,
+    null
+  );
+
+  return {
+    origin: originAirport,
+    destination: destAirport,
+    cabinClass,
+    passengers,
+    days: calendarDays,
+    cheapestDate: cheapest?.date ?? null,
+  };
+}
+
 /**
  * Get flight search by ID.
  */
@@ -335,70 +1038,93 @@ export function getFlightSearch(searchId: string): FlightSearch | undefined {
 }
 
 /**
- * Select a flight from search results.
+ * Find the leg of a search that offers the given flight.
+ */
+function findLegByFlightId(search: FlightSearch, flightId: string): { leg: FlightLeg; legIndex: number } | undefined {
+  const legIndex = search.legs.findIndex((l) => l.flights.some((f) => f.id === flightId));
+  if (legIndex < 0) return undefined;
+  return { leg: search.legs[legIndex], legIndex };
+}
+
+/**
+ * Select a flight and fare bucket from search results for the leg that offers it.
+ * Without a bucket the cheapest fare on sale is chosen.
  */
-export function selectFlight(searchId: string, flightId: string): { flight: Flight; seatMap: Seat[][] } | undefined {
+export function selectFlight(
+  searchId: string,
+  flightId: string,
+  fareBucket?: FareBucket
+): { flight: Flight; fare: FareOption; seatMap: Seat[][]; legIndex: number } | undefined {
   const search = flightSearches.get(searchId);
   if (!search) return undefined;
 
-  const flight = search.flights.find((f) => f.id === flightId);
-  if (!flight) return undefined;
+  const match = findLegByFlightId(search, flightId);
+  if (!match) return undefined;
 
-  search.selectedFlightId = flightId;
+  const { leg, legIndex } = match;
+  const flight = leg.flights.find((f) => f.id === flightId)!;
+  const fare = fareBucket ? flight.fares.find((f) => f.bucket === fareBucket) : flight.fares[0];
+  if (!fare) return undefined;
+
+  // Seats chosen for a different flight no longer apply
+  if (leg.selectedFlightId !== flightId) {
+    const previous = leg.flights.find((f) => f.id === leg.selectedFlightId);
+    if (previous) releaseHolds(getSeatInventory(previous), searchId);
+    leg.selectedSeats = undefined;
+  }
+  leg.selectedFlightId = flightId;
+  leg.selectedFare = fare.bucket;
+
+  const seatMap = getLiveSeatMap(flight, searchId);
+  flight.seatsAvailable = countAvailableSeats(flight, seatMap);
 
   return {
     flight,
-    seatMap: generateSeatMap(flightId),
+    fare,
+    seatMap,
+    legIndex,
   };
 }
 
 /**
- * Generate a seat map for a flight.
- * Uses flight ID as seed for consistent results.
+ * Generate the baseline seat map for one cabin of a flight.
+ * Rows and columns follow the aircraft's cabin layout; occupancy uses the
+ * flight's seed and key for consistent results.
  */
-export function generateSeatMap(flightId: string): Seat[][] {
-  // Simple hash of flight ID for consistent random generation
-  let hash = 0;
-  for (let i = 0; i < flightId.length; i++) {
-    hash = ((hash << 5) - hash) + flightId.charCodeAt(i);
-    hash = hash & hash;
-  }
-
-  // Seeded random function
-  const seededRandom = () => {
-    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
-    return hash / 0x7fffffff;
-  };
+export function generateSeatMap(seed: string, flightKey: string, layout: SeatLayout, cabinClass: CabinClass): Seat[][] {
+  const seededRandom = createSeededRandom(seed, flightKey);
 
   const rows: Seat[][] = [];
-  const positions = ["A", "B", "C", "D", "E", "F"]; // 3-3 configuration
-  const rowCount = 20;
-  const exitRows = [10, 11]; // Exit row positions
+  const fees = SEAT_FEES[cabinClass];
   const occupancyRate = 0.3 + seededRandom() * 0.3; // 30-60% full
 
-  for (let row = 1; row <= rowCount; row++) {
+  for (let row = layout.firstRow; row <= layout.lastRow; row++) {
     const rowSeats: Seat[] = [];
-    const isExitRow = exitRows.includes(row);
-
-    for (const pos of positions) {
-      const isWindow = pos === "A" || pos === "F";
-      const isAisle = pos === "C" || pos === "D";
-      const isOccupied = seededRandom() < occupancyRate;
-
-      // Exit row seats cost more
-      const extraPrice = isExitRow ? 35 : isWindow ? 15 : isAisle ? 10 : 0;
-
-      rowSeats.push({
-        id: `${row}${pos}`,
-        row,
-        position: pos,
-        status: isOccupied ? "occupied" : (isExitRow ? "exit" : "available"),
-        isWindow,
-        isAisle,
-        isExitRow,
-        price: extraPrice,
+    const isExitRow = layout.exitRows.includes(row);
+
+    layout.columns.forEach((block, blockIndex) => {
+      const lastBlock = layout.columns.length - 1;
+
+      [...block].forEach((pos, i) => {
+        const isWindow = (blockIndex === 0 && i === 0) || (blockIndex === lastBlock && i === block.length - 1);
+        const isAisle = (blockIndex > 0 && i === 0) || (blockIndex < lastBlock && i === block.length - 1);
+        const isOccupied = seededRandom() < occupancyRate;
+
+        // Exit row seats cost more
+        const extraPrice = isExitRow ? fees.exit : isWindow ? fees.window : isAisle ? fees.aisle : 0;
+
+        rowSeats.push({
+          id: `${row}${pos}`,
+          row,
+          position: pos,
+          status: isOccupied ? "occupied" : (isExitRow ? "exit" : "available"),
+          isWindow,
+          isAisle,
+          isExitRow,
+          price: extraPrice,
+        });
       });
-    }
+    });
 
     rows.push(rowSeats);
   }
@@ -406,27 +1132,152 @@ export function generateSeatMap(flightId: string): Seat[][] {
   return rows;
 }
 
+/**
+ * Key identifying a physical flight across cabins and search sessions, e.g. "JFK-LHR-BA117-2026-12-01".
+ * Flight numbers repeat across routes, so the route is part of the key.
+ */
+export function getPhysicalFlightKey(flight: Flight): string {
+  return `${flight.origin.code}-${flight.destination.code}-${flight.flightNumber}-${flight.departureDate}`;
+}
+
+/**
+ * Key identifying one cabin of a physical flight across search sessions.
+ */
+function getFlightKey(flight: Flight): string {
+  return `${getPhysicalFlightKey(flight)}-${flight.cabinClass}`;
+}
+
+/**
+ * Get (or create from the seeded map) the seat inventory for a flight.
+ */
+export function getSeatInventory(flight: Flight): SeatInventory {
+  const key = getFlightKey(flight);
+  let inventory = seatInventories.get(key);
+
+  if (!inventory) {
+    inventory = {
+      baseMap: generateSeatMap(flight.seed, key, flight.seatLayout, flight.cabinClass),
+      booked: new Set(),
+      holds: new Map(),
+      unassigned: 0,
+    };
+    seatInventories.set(key, inventory);
+  }
+
+  // Drop holds that have timed out
+  const currentTime = now();
+  for (const [seatId, hold] of inventory.holds) {
+    if (hold.expiresAt <= currentTime) inventory.holds.delete(seatId);
+  }
+
+  return inventory;
+}
+
+/**
+ * Release every seat held by a search session on a flight.
+ */
+function releaseHolds(inventory: SeatInventory, searchId: string): void {
+  for (const [seatId, hold] of inventory.holds) {
+    if (hold.searchId === searchId) inventory.holds.delete(seatId);
+  }
+}
+
+/**
+ * Build the current seat map for a flight.
+ * Booked seats and seats held by other sessions show as occupied; seats held
+ * by the given search session show as selected.
+ */
+export function getLiveSeatMap(flight: Flight, searchId?: string): Seat[][] {
+  const inventory = getSeatInventory(flight);
+
+  return inventory.baseMap.map((row) =>
+    row.map((seat) => {
+      const hold = inventory.holds.get(seat.id);
+      let status = seat.status;
+
+      if (inventory.booked.has(seat.id) || (hold && hold.searchId !== searchId)) {
+        status = "occupied";
+      } else if (hold && searchId) {
+        status = "selected";
+      }
+
+      return { ...seat, status };
+    })
+  );
+}
+
+/**
+ * Build the current seat map for a flight in search results.
+ * Flights with a stored inventory show its bookings and holds; the rest use the
+ * seeded map, which is only stored once the flight is selected.
+ */
+function previewSeatMap(flight: Flight): Seat[][] {
+  const key = getFlightKey(flight);
+  return seatInventories.has(key)
+    ? getLiveSeatMap(flight)
+    : generateSeatMap(flight.seed, key, flight.seatLayout, flight.cabinClass);
+}
+
+/**
+ * Count seats that can still be selected on a flight's seat map.
+ * Seats kept back for passengers booked without one are not available.
+ */
+export function countAvailableSeats(flight: Flight, seatMap: Seat[][]): number {
+  const unassigned = seatInventories.get(getFlightKey(flight))?.unassigned ?? 0;
+  return Math.max(0, seatMap.flat().filter((s) => s.status !== "occupied").length - unassigned);
+}
+
+/**
+ * Price a flight's fare buckets from its current seat map.
+ */
+function priceFlight(flight: Flight, seatMap: Seat[][]): FareOption[] {
+  return priceFares({
+    cabinClass: flight.cabinClass,
+    baseFare: flight.baseFare,
+    seatsAvailable: countAvailableSeats(flight, seatMap),
+    totalSeats: seatMap.flat().length,
+    departureDate: flight.departureDate,
+  });
+}
+
+/**
+ * Get the fare chosen for a leg, defaulting to the cheapest on sale.
+ */
+function getSelectedFare(leg: FlightLeg, flight: Flight): FareOption {
+  return flight.fares.find((f) => f.bucket === leg.selectedFare) ?? flight.fares[0];
+}
+
 /**
  * Select seats for a flight.
+ * Places a time-limited hold on the seats so other sessions cannot take them.
+ * An empty list skips seat selection, leaving seats to be assigned at check-in.
  */
 export function selectSeats(searchId: string, flightId: string, seatIds: string[]): {
   success: boolean;
   message: string;
   selectedSeats?: string[];
   totalSeatFee?: number;
+  holdExpiresAt?: string;
 } {
   const search = flightSearches.get(searchId);
   if (!search) {
     return { success: false, message: "Search session not found" };
   }
 
-  if (search.selectedFlightId !== flightId) {
+  const match = findLegByFlightId(search, flightId);
+  if (!match || match.leg.selectedFlightId !== flightId) {
     return { success: false, message: "Flight not selected" };
   }
 
-  const seatMap = generateSeatMap(flightId);
+  const flight = match.leg.flights.find((f) => f.id === flightId)!;
+  const inventory = getSeatInventory(flight);
+  const seatMap = getLiveSeatMap(flight, searchId);
   const flatSeats = seatMap.flat();
 
+  if (new Set(seatIds).size !== seatIds.length) {
+    return { success: false, message: "Each seat can only be selected once" };
+  }
+
   // Verify all seats are available
   let totalFee = 0;
   for (const seatId of seatIds) {
@@ -440,35 +1291,268 @@ export function selectSeats(searchId: string, flightId: string, seatIds: string[
     totalFee += seat.price;
   }
 
+  const available = countAvailableSeats(flight, seatMap);
+  if (seatIds.length > available) {
+    return { success: false, message: `Only ${available} seat(s) are left to choose on ${flight.flightNumber}` };
+  }
+
+  // Replace this session's previous holds with the new selection
+  releaseHolds(inventory, searchId);
+  const expiresAt = now() + SEAT_HOLD_MS;
+  for (const seatId of seatIds) {
+    inventory.holds.set(seatId, { searchId, expiresAt });
+  }
+
   // Store selected seats
-  search.selectedSeats = seatIds;
+  match.leg.selectedSeats = seatIds;
 
   return {
     success: true,
-    message: `Selected ${seatIds.length} seat(s): ${seatIds.join(", ")}`,
+    message: seatIds.length > 0
+      ? `Selected ${seatIds.length} seat(s): ${seatIds.join(", ")}. Held for ${SEAT_HOLD_MS / 60000} minutes.`
+      : "Seat selection skipped. Seats will be assigned at check-in.",
     selectedSeats: seatIds,
     totalSeatFee: totalFee,
+    holdExpiresAt: new Date(expiresAt).toISOString(),
   };
 }
 
 /**
- * Create a booking for the selected flight and seats.
+ * Extras for a booking with no add-ons chosen.
  */
-export function createBooking(
+function noExtras(passengerCount: number): BookingExtras {
+  return {
+    passengers: Array.from({ length: passengerCount }, () => ({ checkedBags: 0, meal: "none" as MealPreference, priorityBoarding: false })),
+    insurance: false,
+  };
+}
+
+/**
+ * Itemise fares, seat fees and extras for a set of legs.
+ */
+function buildPriceBreakdown(legs: BookedLeg[], passengerCount: number, extras: BookingExtras): PriceLine[] {
+  const lines: PriceLine[] = [];
+  const pricing = EXTRAS_PRICING[legs[0].flight.cabinClass];
+
+  for (const leg of legs) {
+    const route = `${leg.flight.origin.code} → ${leg.flight.destination.code}`;
+    lines.push({
+      type: "fare",
+      label: `${leg.fare.name} fare ${route} (${passengerCount} × $${leg.fare.price})`,
+      amount: leg.fare.price * passengerCount,
+    });
+    if (leg.seatFees > 0) {
+      lines.push({ type: "seats", label: `Seat selection ${route}`, amount: leg.seatFees });
+    }
+  }
+
+  const legCount = legs.length;
+  const bagCount = extras.passengers.reduce((sum, p) => sum + p.checkedBags, 0);
+  const bagCost = extras.passengers.reduce(
+    (sum, p) => sum + pricing.checkedBags.slice(0, p.checkedBags).reduce((a, b) => a + b, 0),
+    0
+  ) * legCount;
+  const mealCount = extras.passengers.filter((p) => p.meal !== "none").length;
+  const priorityCount = extras.passengers.filter((p) => p.priorityBoarding).length;
+
+  // Included extras still get a $0 line so the passenger sees they are covered
+  if (bagCount > 0) {
+    lines.push({ type: "extras", label: `Checked bags (${bagCount} × ${legCount} flight${legCount > 1 ? "s" : ""})`, amount: bagCost });
+  }
+  if (mealCount > 0) {
+    lines.push({ type: "extras", label: `Meals (${mealCount} × ${legCount} flight${legCount > 1 ? "s" : ""})`, amount: pricing.meal * mealCount * legCount });
+  }
+  if (priorityCount > 0) {
+    lines.push({ type: "extras", label: `Priority boarding (${priorityCount} × ${legCount} flight${legCount > 1 ? "s" : ""})`, amount: pricing.priorityBoarding * priorityCount * legCount });
+  }
+  if (extras.insurance) {
+    const fareTotal = lines.filter((l) => l.type === "fare").reduce((sum, l) => sum + l.amount, 0);
+    lines.push({ type: "extras", label: "Travel insurance", amount: Math.round(fareTotal * pricing.insurancePercent) });
+  }
+
+  return lines;
+}
+
+/**
+ * Add a booking's promo discount and the points redeemed on it to its price
+ * breakdown as negative lines. The promo comes off first.
+ */
+function withDiscounts(lines: PriceLine[], promo: AppliedPromo | undefined, loyalty?: BookingLoyalty): PriceLine[] {
+  const discounted = [...lines];
+  if (promo) {
+    discounted.push({ type: "promo", label: `Promo ${promo.code}`, amount: -promo.discount });
+  }
+  if (loyalty && loyalty.pointsDiscount > 0) {
+    discounted.push({ type: "points", label: `${loyalty.pointsRedeemed} points redeemed`, amount: -loyalty.pointsDiscount });
+  }
+  return discounted;
+}
+
+/**
+ * Add up a price breakdown.
+ */
+function sumPriceLines(lines: PriceLine[]): number {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Choose checked bags, meals, priority boarding and insurance for a search session.
+ * Passengers without an entry get no add-ons.
+ */
+export function selectExtras(
+  searchId: string,
+  extras: { passengers?: Partial<PassengerExtras>[]; insurance?: boolean }
+): { success: boolean; message: string; extras?: BookingExtras; priceLines?: PriceLine[]; extrasTotal?: number } {
+  const search = flightSearches.get(searchId);
+  if (!search) {
+    return { success: false, message: "Search session not found" };
+  }
+
+  const passengerCount = search.searchParams.passengers;
+  const requested = extras.passengers || [];
+  if (requested.length > passengerCount) {
+    return { success: false, message: `Extras given for ${requested.length} passengers, but the search has ${passengerCount}` };
+  }
+
+  const maxBags = search.extrasPricing.checkedBags.length;
+  const chosen = noExtras(passengerCount);
+  for (const [index, passengerExtras] of requested.entries()) {
+    const { checkedBags = 0, meal = "none", priorityBoarding = false } = passengerExtras;
+
+    if (!Number.isInteger(checkedBags) || checkedBags < 0 || checkedBags > maxBags) {
+      return { success: false, message: `Passenger ${index + 1} can check 0-${maxBags} bags` };
+    }
+    if (!MEAL_PREFERENCES.includes(meal)) {
+      return { success: false, message: `Unknown meal preference: ${meal}` };
+    }
+
+    chosen.passengers[index] = { checkedBags, meal, priorityBoarding };
+  }
+  chosen.insurance = extras.insurance ?? false;
+
+  search.extras = chosen;
+
+  // Price the extras against the selected flights where known, for the insurance line
+  const selectedLegs: BookedLeg[] = search.legs.flatMap((leg) => {
+    const flight = leg.flights.find((f) => f.id === leg.selectedFlightId);
+    return flight ? [{ flight, fare: getSelectedFare(leg, flight), seats: [], seatFees: 0 }] : [];
+  });
+  const priceLines = selectedLegs.length === search.legs.length
+    ? buildPriceBreakdown(selectedLegs, passengerCount, chosen).filter((l) => l.type === "extras")
+    : [];
+
+  return {
+    success: true,
+    message: "Extras saved",
+    extras: chosen,
+    priceLines,
+    extrasTotal: sumPriceLines(priceLines),
+  };
+}
+
+/**
+ * Describe the legs being booked for checking a promo code against them.
+ */
+function getPromoContext(legs: BookedLeg[], subtotal: number): PromoContext {
+  return {
+    product: "flight",
+    subtotal,
+    startDate: legs[0].flight.departureDate,
+    endDate: legs[legs.length - 1].flight.departureDate,
+    routes: legs.map((leg) => `${leg.flight.origin.code}-${leg.flight.destination.code}`),
+    cities: legs.map((leg) => leg.flight.destination.city),
+  };
+}
+
+/**
+ * Apply a promo code to a search session, or remove it with an empty code.
+ * The code is checked against the selected flights, fares, held seats and
+ * extras, before any loyalty perks or points. It is checked again when booking.
+ */
+export function applyFlightPromo(
   searchId: string,
-  passengers: Passenger[]
-): { success: boolean; message: string; booking?: Booking } {
+  code: string
+): {
+  success: boolean;
+  message: string;
+  promo?: AppliedPromo;
+  priceBreakdown?: PriceLine[];
+  subtotal?: number;
+  totalPrice?: number;
+  errorCode?: PromoErrorCode;
+} {
   const search = flightSearches.get(searchId);
   if (!search) {
     return { success: false, message: "Search session not found" };
   }
 
-  if (!search.selectedFlightId) {
-    return { success: false, message: "No flight selected" };
+  if (!code.trim()) {
+    delete search.promoCode;
+    return { success: true, message: "Promo code removed" };
+  }
+
+  const selectedLegs: BookedLeg[] = [];
+  for (const [index, leg] of search.legs.entries()) {
+    const flight = leg.flights.find((f) => f.id === leg.selectedFlightId);
+    if (!flight) {
+      const label = search.legs.length > 1 ? ` for leg ${index + 1} (${leg.origin} → ${leg.destination})` : "";
+      return { success: false, message: `No flight selected${label}` };
+    }
+    const flatSeats = getSeatInventory(flight).baseMap.flat();
+    const seats = leg.selectedSeats ?? [];
+    const seatFees = seats.reduce((sum, seatId) => sum + (flatSeats.find((s) => s.id === seatId)?.price ?? 0), 0);
+    selectedLegs.push({ flight, fare: getSelectedFare(leg, flight), seats, seatFees });
+  }
+
+  const priceBreakdown = buildPriceBreakdown(
+    selectedLegs,
+    search.searchParams.passengers,
+    search.extras ?? noExtras(search.searchParams.passengers)
+  );
+  const subtotal = sumPriceLines(priceBreakdown);
+  const { promo, failure } = evaluatePromo(code, getPromoContext(selectedLegs, subtotal));
+  if (!promo) {
+    return { success: false, message: failure!.message, errorCode: failure!.errorCode };
   }
 
-  if (!search.selectedSeats || search.selectedSeats.length === 0) {
-    return { success: false, message: "No seats selected" };
+  search.promoCode = promo.code;
+  const discounted = withDiscounts(priceBreakdown, promo);
+
+  return {
+    success: true,
+    message: `${promo.code} applied: $${promo.discount} off`,
+    promo,
+    priceBreakdown: discounted,
+    subtotal,
+    totalPrice: sumPriceLines(discounted),
+  };
+}
+
+/**
+ * Summarise fare changes as one readable sentence.
+ */
+function describePriceChanges(changes: PriceChange[]): string {
+  return changes.map((c) => `${c.route} ${c.fareName} $${c.previousPrice} → $${c.newPrice}`).join(", ");
+}
+
+/**
+ * Create a single booking for the selected flight and seats on every leg.
+ * Seats can be left unselected on a leg, and are then assigned at check-in.
+ * Fares are re-priced first; a fare that went up since the search is not
+ * booked until the traveller books again at the new price.
+ * A promo code applied to the search is checked again against the final
+ * price; if it no longer applies it is removed and the booking is not made.
+ * The booking earns loyalty points for the lead passenger, who can also
+ * redeem points from their balance against the total after the promo.
+ */
+export function createBooking(
+  searchId: string,
+  passengers: Passenger[],
+  options: { redeemPoints?: number } = {}
+): { success: boolean; message: string; booking?: Booking; fieldErrors?: FieldError[]; priceChanges?: PriceChange[]; promoError?: PromoFailure } {
+  const search = flightSearches.get(searchId);
+  if (!search) {
+    return { success: false, message: "Search session not found" };
   }
 
   if (passengers.length !== search.searchParams.passengers) {
@@ -478,56 +1562,430 @@ export function createBooking(
     };
   }
 
-  if (passengers.length !== search.selectedSeats.length) {
+  const fieldErrors = validatePassengers(passengers, {
+    requirePassport: search.legs.some((leg) => isInternationalRoute(leg.origin, leg.destination)),
+    lastTravelDate: search.legs[search.legs.length - 1].date,
+  });
+  if (fieldErrors.length > 0) {
+    return { success: false, message: describeFieldErrors(fieldErrors), fieldErrors };
+  }
+
+  // Members whose tier includes free seat selection pay no seat fees
+  const member = getLoyaltyAccount(passengers[0].email);
+  const freeSeats = member ? hasPerk(member, "free-seat-selection") : false;
+
+  const bookedLegs: BookedLeg[] = [];
+  const priceChanges: PriceChange[] = [];
+
+  for (const [index, leg] of search.legs.entries()) {
+    const label = search.legs.length > 1 ? ` for leg ${index + 1} (${leg.origin} → ${leg.destination})` : "";
+
+    if (!leg.selectedFlightId) {
+      return { success: false, message: `No flight selected${label}` };
+    }
+
+    // Seats are optional; passengers without one are given a seat at check-in
+    const selectedSeats = leg.selectedSeats ?? [];
+    if (selectedSeats.length > 0 && passengers.length !== selectedSeats.length) {
+      return {
+        success: false,
+        message: `Number of passengers (${passengers.length}) doesn't match selected seats (${selectedSeats.length})${label}`,
+      };
+    }
+
+    const flight = leg.flights.find((f) => f.id === leg.selectedFlightId);
+    if (!flight) {
+      return { success: false, message: `Selected flight not found${label}` };
+    }
+    if (cancelledFlights.has(getPhysicalFlightKey(flight))) {
+      return { success: false, message: `${flight.flightNumber}${label} has been cancelled by the airline. Please choose another flight.` };
+    }
+
+    // Seats must still be held by this session
+    const inventory = getSeatInventory(flight);
+    const lapsed = selectedSeats.find((seatId) => inventory.holds.get(seatId)?.searchId !== searchId);
+    if (lapsed) {
+      return {
+        success: false,
+        message: `The hold on seat ${lapsed}${label} has expired. Please select seats again.`,
+      };
+    }
+    if (selectedSeats.length === 0 && countAvailableSeats(flight, getLiveSeatMap(flight, searchId)) < passengers.length) {
+      return { success: false, message: `${flight.flightNumber}${label} no longer has room for ${passengers.length} passenger(s)` };
+    }
+
+    // Fares move with demand, so re-price against the live seat map
+    const quotedFare = getSelectedFare(leg, flight);
+    flight.fares = priceFlight(flight, getLiveSeatMap(flight, searchId));
+    flight.price = flight.fares[0].price;
+    const fare = flight.fares.find((f) => f.bucket === quotedFare.bucket);
+    if (!fare) {
+      return { success: false, message: `${quotedFare.name} fares have sold out${label}. Please choose another fare.` };
+    }
+    if (fare.price !== quotedFare.price) {
+      priceChanges.push({
+        legIndex: index,
+        route: `${flight.origin.code} → ${flight.destination.code}`,
+        fareName: fare.name,
+        previousPrice: quotedFare.price,
+        newPrice: fare.price,
+      });
+    }
+
+    // Calculate leg price
+    const flatSeats = inventory.baseMap.flat();
+    let seatFees = 0;
+    for (const seatId of selectedSeats) {
+      const seat = flatSeats.find((s) => s.id === seatId);
+      if (seat && !freeSeats) seatFees += seat.price;
+    }
+
+    bookedLegs.push({ flight, fare, seats: selectedSeats, seatFees });
+  }
+
+  // The search now holds the new fares, so booking again accepts them
+  if (priceChanges.some((c) => c.newPrice > c.previousPrice)) {
     return {
       success: false,
-      message: `Number of passengers (${passengers.length}) doesn't match selected seats (${search.selectedSeats.length})`,
+      message: `Fares have gone up since your search: ${describePriceChanges(priceChanges)}. Book again to accept the new price.`,
+      priceChanges,
     };
   }
 
-  const flight = search.flights.find((f) => f.id === search.selectedFlightId);
-  if (!flight) {
-    return { success: false, message: "Selected flight not found" };
+  const extras = search.extras ?? noExtras(passengers.length);
+  const priceBreakdown = buildPriceBreakdown(bookedLegs, passengers.length, extras);
+  const subtotal = sumPriceLines(priceBreakdown);
+
+  let promo: AppliedPromo | undefined;
+  if (search.promoCode) {
+    const evaluation = evaluatePromo(search.promoCode, getPromoContext(bookedLegs, subtotal));
+    if (!evaluation.promo) {
+      delete search.promoCode;
+      return {
+        success: false,
+        message: `${evaluation.failure!.message}, so the code has been removed. Book again to continue without it.`,
+        promoError: evaluation.failure,
+      };
+    }
+    promo = evaluation.promo;
   }
 
-  // Calculate total price
-  const seatMap = generateSeatMap(flight.id);
-  const flatSeats = seatMap.flat();
-  let seatFees = 0;
-  for (const seatId of search.selectedSeats) {
-    const seat = flatSeats.find((s) => s.id === seatId);
-    if (seat) seatFees += seat.price;
+  let pointsDiscount = 0;
+  if (options.redeemPoints) {
+    if (!member) {
+      return { success: false, message: `${passengers[0].email} has no loyalty account yet, so there are no points to redeem` };
+    }
+    const redemption = checkRedemption(member, options.redeemPoints, subtotal - (promo?.discount ?? 0));
+    if (redemption.discount === undefined) {
+      return { success: false, message: redemption.message! };
+    }
+    pointsDiscount = redemption.discount;
   }
 
-  const totalPrice = (flight.price * passengers.length) + seatFees;
+  // Every leg checks out, so turn the holds into confirmed seats and keep
+  // room for passengers who will be given a seat at check-in
+  for (const leg of bookedLegs) {
+    const inventory = getSeatInventory(leg.flight);
+    for (const seatId of leg.seats) {
+      inventory.holds.delete(seatId);
+      inventory.booked.add(seatId);
+    }
+    inventory.unassigned += passengers.length - leg.seats.length;
+    leg.flight.seatsAvailable = countAvailableSeats(leg.flight, getLiveSeatMap(leg.flight));
+  }
 
   const confirmationNumber = generateConfirmationNumber();
+  const normalizedPassengers = passengers.map(normalizeTraveller);
+
+  // The lead passenger joins the loyalty programme on their first booking
+  const account = member ?? getOrCreateLoyaltyAccount(normalizedPassengers[0].name, normalizedPassengers[0].email);
+  const fareTotal = sumPriceLines(priceBreakdown.filter((line) => line.type === "fare"));
+  const loyalty: BookingLoyalty = {
+    memberId: account.memberId,
+    tier: account.tier,
+    pointsEarned: calculatePointsEarned(account.tier, fareTotal, POINTS_PER_FARE_DOLLAR[bookedLegs[0].flight.cabinClass]),
+    pointsRedeemed: options.redeemPoints ?? 0,
+    pointsDiscount,
+    perks: freeSeats ? ["free-seat-selection"] : [],
+  };
+  const pricedBreakdown = withDiscounts(priceBreakdown, promo, loyalty);
 
   const booking: Booking = {
     confirmationNumber,
-    flight,
-    passengers,
-    seats: search.selectedSeats,
-    totalPrice,
-    bookedAt: new Date().toISOString(),
+    status: "confirmed",
+    tripType: search.tripType,
+    legs: bookedLegs,
+    passengers: normalizedPassengers,
+    extras,
+    priceBreakdown: pricedBreakdown,
+    totalPrice: sumPriceLines(pricedBreakdown),
+    promo,
+    loyalty,
+    bookedAt: new Date(now()).toISOString(),
   };
 
   // Store booking
   bookings.set(confirmationNumber, booking);
+  settleBookingPoints(loyalty, confirmationNumber, `flight ${describeBookingRoute(booking)}`);
+  if (promo) recordPromoUse(promo.code);
 
   // Clear the search session
   flightSearches.delete(searchId);
 
   return {
     success: true,
-    message: `Booking confirmed! Your confirmation number is ${confirmationNumber}`,
+    message: `Booking confirmed! Your confirmation number is ${confirmationNumber}${
+      priceChanges.length > 0 ? `. Fares dropped since your search: ${describePriceChanges(priceChanges)}` : ""
+    }${promo ? `. ${promo.code} saved you $${promo.discount}` : ""}. You earned ${loyalty.pointsEarned} loyalty points${
+      freeSeats ? ` and seat selection is free as a ${getTierBenefits(loyalty.tier).name} member` : ""
+    }.`,
     booking,
+    priceChanges: priceChanges.length > 0 ? priceChanges : undefined,
   };
 }
 
+/**
+ * Describe the airports a booking flies through, e.g. "JFK → LHR → JFK".
+ */
+function describeBookingRoute(booking: Booking): string {
+  return [booking.legs[0].flight.origin.code, ...booking.legs.map((leg) => leg.flight.destination.code)].join(" → ");
+}
+
+/**
+ * Describe the seats of a booked leg, e.g. "seats 12A, 12B".
+ */
+export function describeSeats(seats: string[]): string {
+  return seats.length > 0 ? `seats ${seats.join(", ")}` : "seats assigned at check-in";
+}
+
 /**
  * Get booking by confirmation number.
  */
 export function getBooking(confirmationNumber: string): Booking | undefined {
-  return bookings.get(confirmationNumber);
+  return bookings.get(confirmationNumber.toUpperCase());
+}
+
+/**
+ * Build the live seat map for one leg of a booking.
+ * The booking's own seats show as selected rather than occupied.
+ */
+export function getBookingSeatMap(booking: Booking, legIndex: number): Seat[][] {
+  const leg = booking.legs[legIndex];
+  const ownSeats = booking.status === "confirmed" ? leg.seats : [];
+
+  return getLiveSeatMap(leg.flight).map((row) =>
+    row.map((seat) => (ownSeats.includes(seat.id) ? { ...seat, status: "selected" } : seat))
+  );
+}
+
+/**
+ * Look up a booking that can still be changed.
+ */
+function getConfirmedBooking(confirmationNumber: string): { booking?: Booking; message?: string } {
+  const booking = getBooking(confirmationNumber);
+  if (!booking) {
+    return { message: `Booking ${confirmationNumber} not found` };
+  }
+  if (booking.status !== "confirmed") {
+    return { message: `Booking ${booking.confirmationNumber} has been cancelled` };
+  }
+  return { booking };
+}
+
+/**
+ * Itemise a booking again after its seat fees change.
+ * The promo is worked out again for the new price, without re-checking its
+ * limits. Points already redeemed cover at most what is left; any over go back.
+ */
+export function repriceBooking(booking: Booking): void {
+  const priceBreakdown = buildPriceBreakdown(booking.legs, booking.passengers.length, booking.extras);
+  const subtotal = sumPriceLines(priceBreakdown);
+  if (booking.promo) {
+    booking.promo.discount = calculatePromoDiscount(getPromoRule(booking.promo.code)!, subtotal);
+  }
+  adjustBookingPoints(
+    booking.loyalty,
+    {
+      pointsEarned: booking.loyalty.pointsEarned,
+      pointsDiscount: Math.min(booking.loyalty.pointsDiscount, subtotal - (booking.promo?.discount ?? 0)),
+    },
+    booking.confirmationNumber,
+    `flight ${describeBookingRoute(booking)}`
+  );
+  booking.priceBreakdown = withDiscounts(priceBreakdown, booking.promo, booking.loyalty);
+  booking.totalPrice = sumPriceLines(booking.priceBreakdown);
+}
+
+/**
+ * Move the passengers on one leg of a booking to different seats.
+ * The booking total is adjusted by the difference in seat fees, by any
+ * change to a percentage promo, and by points no longer needed to cover it.
+ */
+export function changeBookingSeats(
+  confirmationNumber: string,
+  legIndex: number,
+  seatIds: string[]
+): { success: boolean; message: string; booking?: Booking; feeDifference?: number } {
+  const { booking, message } = getConfirmedBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: message! };
+  }
+
+  const leg = booking.legs[legIndex];
+  if (!leg) {
+    return { success: false, message: `Leg ${legIndex + 1} not found on booking` };
+  }
+
+  if (seatIds.length !== booking.passengers.length) {
+    return {
+      success: false,
+      message: `Select ${booking.passengers.length} seat(s), one per passenger`,
+    };
+  }
+
+  if (new Set(seatIds).size !== seatIds.length) {
+    return { success: false, message: "Each seat can only be selected once" };
+  }
+
+  const flatSeats = getBookingSeatMap(booking, legIndex).flat();
+  let seatFees = 0;
+  for (const seatId of seatIds) {
+    const seat = flatSeats.find((s) => s.id === seatId);
+    if (!seat) {
+      return { success: false, message: `Seat ${seatId} not found` };
+    }
+    if (seat.status === "occupied") {
+      return { success: false, message: `Seat ${seatId} is already taken` };
+    }
+    seatFees += seat.price;
+  }
+
+  // Free seat selection is kept for the life of the booking
+  if (booking.loyalty.perks.includes("free-seat-selection")) {
+    seatFees = 0;
+  }
+
+  // Swap the booked seats in the shared inventory; passengers without a seat now have one
+  const inventory = getSeatInventory(leg.flight);
+  inventory.unassigned -= booking.passengers.length - leg.seats.length;
+  for (const seatId of leg.seats) inventory.booked.delete(seatId);
+  for (const seatId of seatIds) inventory.booked.add(seatId);
+
+  const feeDifference = seatFees - leg.seatFees;
+  leg.seats = seatIds;
+  leg.seatFees = seatFees;
+  repriceBooking(booking);
+
+  return {
+    success: true,
+    message: `Seats on ${leg.flight.flightNumber} changed to ${seatIds.join(", ")}`,
+    booking,
+    feeDifference,
+  };
+}
+
+/**
+ * Update the contact details or name of a passenger on a booking.
+ */
+export function updatePassenger(
+  confirmationNumber: string,
+  passengerIndex: number,
+  updates: Partial<Passenger>
+): { success: boolean; message: string; booking?: Booking; fieldErrors?: FieldError[] } {
+  const { booking, message } = getConfirmedBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: message! };
+  }
+
+  const passenger = booking.passengers[passengerIndex];
+  if (!passenger) {
+    return { success: false, message: `Passenger ${passengerIndex + 1} not found on booking` };
+  }
+
+  // Validate the passenger as updated, under the same rules as at booking time
+  const updated = { ...passenger, ...updates };
+  const legs = booking.legs.map((leg) => leg.flight);
+  const fieldErrors = validatePassengers([updated], {
+    requirePassport: legs.some((f) => f.origin.country !== f.destination.country),
+    lastTravelDate: legs[legs.length - 1].departureDate,
+  }).map((error) => ({ ...error, passengerIndex }));
+  if (fieldErrors.length > 0) {
+    return { success: false, message: describeFieldErrors(fieldErrors), fieldErrors };
+  }
+
+  booking.passengers[passengerIndex] = normalizeTraveller(updated);
+
+  return {
+    success: true,
+    message: `Updated details for passenger ${passengerIndex + 1}`,
+    booking,
+  };
+}
+
+/**
+ * Calculate the refund for cancelling a booking now.
+ * Full refund within the free cancellation window, otherwise the fare
+ * bucket's rule applies to the fare and seat fees and extras are kept.
+ * Travel insurance makes the whole fare refundable. Legs the airline has
+ * cancelled get their fare and seat fees back in full. Each leg is refunded
+ * on what was paid for it once its share of any promo discount is taken off.
+ * Points redeemed are returned to the member, so the cash refund is at most
+ * the total paid.
+ */
+export function calculateRefund(booking: Booking, cancelledLegs: number[] = []): number {
+  if (now() - new Date(booking.bookedAt).getTime() < FREE_CANCELLATION_MS) {
+    return booking.totalPrice;
+  }
+
+  const passengerCount = booking.passengers.length;
+  const promoDiscount = booking.promo?.discount ?? 0;
+  const subtotal = booking.totalPrice + promoDiscount + booking.loyalty.pointsDiscount;
+  const paidShare = subtotal > 0 ? (subtotal - promoDiscount) / subtotal : 0;
+  const refund = booking.legs.reduce((sum, leg, index) => {
+    const fare = leg.fare.price * passengerCount * paidShare;
+    if (cancelledLegs.includes(index)) {
+      return sum + fare + leg.seatFees * paidShare;
+    }
+    const rule: FareRule = booking.extras.insurance ? INSURED_FARE_RULE : leg.fare;
+    return sum + Math.max(0, fare * rule.refundPercent - rule.feePerPassenger * passengerCount);
+  }, 0);
+
+  return Math.min(Math.round(refund), booking.totalPrice);
+}
+
+/**
+ * Cancel a booking, release its seats and record the refund.
+ * Legs the airline has cancelled are passed in so they are refunded in full.
+ */
+export function cancelBooking(
+  confirmationNumber: string,
+  options: { cancelledLegs?: number[] } = {}
+): { success: boolean; message: string; booking?: Booking; refundAmount?: number } {
+  const { booking, message } = getConfirmedBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: message! };
+  }
+
+  const refundAmount = calculateRefund(booking, options.cancelledLegs);
+
+  for (const leg of booking.legs) {
+    const inventory = getSeatInventory(leg.flight);
+    for (const seatId of leg.seats) inventory.booked.delete(seatId);
+    inventory.unassigned -= booking.passengers.length - leg.seats.length;
+  }
+
+  booking.status = "cancelled";
+  booking.cancelledAt = new Date(now()).toISOString();
+  booking.refundAmount = refundAmount;
+  reverseBookingPoints(booking.loyalty, booking.confirmationNumber, `flight ${describeBookingRoute(booking)}`);
+  if (booking.promo) releasePromoUse(booking.promo.code);
+
+  return {
+    success: true,
+    message: `Booking ${booking.confirmationNumber} cancelled. Refund: $${refundAmount.toFixed(2)}${
+      booking.loyalty.pointsRedeemed > 0 ? ` and ${booking.loyalty.pointsRedeemed} points returned` : ""
+    }`,
+    booking,
+    refundAmount,
+  };
 }
@@ -0,0 +1,97 @@
+/**
+ * Geography and time zone helpers for the mock travel data.
+ * Used to derive flight distances and local arrival times from airport coordinates.
+ */
+
+// Mean Earth radius used for great-circle distances
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * A point on the globe in decimal degrees.
+ */
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * A calendar date and wall-clock time in some time zone.
+ */
+export interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+/**
+ * Calculate the great-circle distance between two points using the haversine formula.
+ */
+export function greatCircleKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Get the UTC offset of a time zone at the given instant, in milliseconds.
+ */
+function getTimeZoneOffset(epochMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(epochMs));
+
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+}
+
+/**
+ * Convert a local date and time in a time zone to a UTC timestamp.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): number {
+  const [year, month, day] = local.date.split("-").map(Number);
+  const [hour, minute] = local.time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Second pass corrects for a DST change between the guess and the result
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * Format a UTC timestamp as a local date and time in a time zone.
+ */
+export function utcToZonedTime(epochMs: number, timeZone: string): LocalDateTime {
+  const local = new Date(epochMs + getTimeZoneOffset(epochMs, timeZone));
+
+  return {
+    date: local.toISOString().slice(0, 10),
+    time: local.toISOString().slice(11, 16),
+  };
+}
+
+/**
+ * Count calendar days between two YYYY-MM-DD dates.
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
@@ -3,10 +3,42 @@
  * Contains mock city/hotel data, room types, and booking logic.
  */
 
+import { now, today as serverToday } from "./clock.js";
+import { assertValidDates, checkDateOrder, checkTravelDate, DateError, DateValidationError } from "./dates.js";
+import { addDays, daysBetween } from "./geo.js";
+import {
+  adjustBookingPoints,
+  BookingLoyalty,
+  calculatePointsEarned,
+  checkRedemption,
+  getLoyaltyAccount,
+  getOrCreateLoyaltyAccount,
+  getTierBenefits,
+  hasPerk,
+  reverseBookingPoints,
+  settleBookingPoints,
+} from "./loyalty.js";
+import { rankMatches } from "./matching.js";
+import {
+  AppliedPromo,
+  calculatePromoDiscount,
+  evaluatePromo,
+  getPromoRule,
+  PromoContext,
+  PromoErrorCode,
+  PromoFailure,
+  recordPromoUse,
+  releasePromoUse,
+} from "./promos.js";
+import { createSeededRandom, getDefaultSeed } from "./random.js";
+import { CANCELLATION_POLICIES, CancellationPolicy, getRefundPercent, StayPrice, priceStay } from "./rates.js";
+
 // Type definitions
 export type RoomType = "standard" | "deluxe" | "suite" | "family" | "executive";
 export type BedType = "king" | "queen" | "twin" | "double";
 export type Amenity = "wifi" | "pool" | "gym" | "spa" | "restaurant" | "parking" | "airConditioning" | "roomService" | "minibar" | "balcony";
+export type HotelSortBy = "rating" | "price" | "stars" | "reviews";
+export type HotelBookingStatus = "confirmed" | "cancelled";
 
 /**
  * Represents a city destination.
@@ -28,8 +60,12 @@ export interface Room {
   bedType: BedType;
   maxGuests: number;
   amenities: Amenity[];
-  pricePerNight: number;
-  available: number;
+  baseRate: number; // Standard nightly rate before date pricing
+  pricePerNight: number; // Average nightly rate for the stay
+  stayPrice: number; // One room for the whole stay
+  totalRooms: number; // Rooms of this type in the hotel
+  available: number; // Rooms free on every night of the stay
+  cancellationPolicy: CancellationPolicy;
 }
 
 /**
@@ -48,12 +84,34 @@ export interface Hotel {
   rooms: Room[];
 }
 
+/**
+ * Optional criteria that narrow the hotels returned by a search.
+ */
+export interface HotelFilters {
+  minStars?: number;
+  amenities?: Amenity[]; // Hotels must have every one
+  minPrice?: number; // Average nightly rate in USD
+  maxPrice?: number;
+  neighborhoods?: string[];
+}
+
+/**
+ * Hotels in one neighbourhood of a search, for comparing areas.
+ */
+export interface NeighborhoodGroup {
+  neighborhood: string;
+  hotelIds: string[];
+  lowestPrice: number | null; // Lowest nightly rate among hotels that are not sold out
+  averageRating: number;
+}
+
 /**
  * Represents a hotel search result.
  */
 export interface HotelSearch {
   id: string;
   hotels: HotelWithPricing[];
+  unfilteredCount: number; // Hotels in the city before filters
   searchParams: {
     city: string;
     checkIn: string;
@@ -61,18 +119,48 @@ export interface HotelSearch {
     guests: number;
     rooms: number;
     nights: number;
+    seed: string;
+    filters?: HotelFilters;
+    sortBy: HotelSortBy;
   };
   selectedHotelId?: string;
-  selectedRoomId?: string;
-  selectedQuantity?: number;
+  selectedRooms?: RoomSelection[];
+  promoCode?: string; // Applied with applyHotelPromo and checked again at booking
 }
 
 /**
  * Hotel with calculated pricing for the search dates.
  */
 export interface HotelWithPricing extends Hotel {
-  pricePerNight: number; // Lowest room price
-  totalPrice: number; // For all nights
+  pricePerNight: number; // Lowest average nightly rate of a room type with enough rooms free
+  totalPrice: number; // That room type for all nights and rooms
+  soldOut: boolean; // No room type has enough rooms free for the whole stay
+}
+
+/**
+ * Rooms already booked for one room type of a hotel.
+ * Starts empty and is updated by bookings, so availability persists across searches.
+ */
+export interface RoomInventory {
+  booked: Map<string, number>; // Night (YYYY-MM-DD) to rooms booked
+}
+
+/**
+ * Rooms of one type picked for a booking.
+ */
+export interface RoomSelection {
+  roomId: string;
+  quantity: number;
+}
+
+/**
+ * Price of the rooms of one type for a stay.
+ */
+export interface RoomQuote {
+  room: Room;
+  quantity: number;
+  priceBreakdown: StayPrice; // Nightly rates for one room
+  totalPrice: number; // Every room of this type for the whole stay
 }
 
 /**
@@ -83,21 +171,42 @@ export interface Guest {
   email: string;
 }
 
+/**
+ * A guest as given at booking time, optionally placed in one of the selected room types.
+ */
+export interface GuestAssignment extends Guest {
+  roomId?: string;
+}
+
+/**
+ * One room type on a booking, with the guests staying in it.
+ */
+export interface HotelRoomLine extends RoomQuote {
+  guests: Guest[];
+  upgradedFrom?: Room; // Room type paid for, when upgraded as a loyalty perk
+}
+
 /**
  * Represents a completed hotel booking.
  */
 export interface HotelBooking {
   confirmationNumber: string;
+  status: HotelBookingStatus;
   hotel: Hotel;
-  room: Room;
-  roomQuantity: number;
-  guests: Guest[];
+  rooms: HotelRoomLine[];
+  guests: Guest[]; // Every named guest, across all rooms
+  guestCount: number; // Guests staying, which may be more than the guests named
   checkIn: string;
   checkOut: string;
   nights: number;
-  totalPrice: number;
+  totalPrice: number; // Sum of the room lines, less any promo and points redeemed
+  promo?: AppliedPromo;
+  loyalty: BookingLoyalty; // Points for the lead guest's account
   specialRequests?: string;
   bookedAt: string;
+  modifiedAt?: string;
+  cancelledAt?: string;
+  refundAmount?: number;
 }
 
 /**
@@ -117,15 +226,19 @@ const CITIES: City[] = [
 ];
 
 /**
- * Room type configurations.
+ * Room type configurations. Pricier rooms carry stricter cancellation policies.
  */
-const ROOM_CONFIGS: Record<RoomType, { name: string; description: string; basePrice: number; maxGuests: number; amenities: Amenity[] }> = {
+const ROOM_CONFIGS: Record<
+  RoomType,
+  { name: string; description: string; basePrice: number; maxGuests: number; amenities: Amenity[]; cancellationPolicy: CancellationPolicy }
+> = {
   standard: {
     name: "Standard Room",
     description: "Comfortable room with essential amenities for a pleasant stay",
     basePrice: 120,
     maxGuests: 2,
     amenities: ["wifi", "airConditioning"],
+    cancellationPolicy: CANCELLATION_POLICIES.flexible,
   },
   deluxe: {
     name: "Deluxe Room",
@@ -133,6 +246,7 @@ const ROOM_CONFIGS: Record<RoomType, { name: string; description: string; basePr
     basePrice: 180,
     maxGuests: 2,
     amenities: ["wifi", "airConditioning", "minibar", "roomService"],
+    cancellationPolicy: CANCELLATION_POLICIES.flexible,
   },
   suite: {
     name: "Suite",
@@ -140,6 +254,7 @@ const ROOM_CONFIGS: Record<RoomType, { name: string; description: string; basePr
     basePrice: 350,
     maxGuests: 3,
     amenities: ["wifi", "airConditioning", "minibar", "roomService", "balcony"],
+    cancellationPolicy: CANCELLATION_POLICIES.strict,
   },
   family: {
     name: "Family Room",
@@ -147,6 +262,7 @@ const ROOM_CONFIGS: Record<RoomType, { name: string; description: string; basePr
     basePrice: 220,
     maxGuests: 4,
     amenities: ["wifi", "airConditioning", "minibar"],
+    cancellationPolicy: CANCELLATION_POLICIES.moderate,
   },
   executive: {
     name: "Executive Room",
@@ -154,9 +270,28 @@ const ROOM_CONFIGS: Record<RoomType, { name: string; description: string; basePr
     basePrice: 250,
     maxGuests: 2,
     amenities: ["wifi", "airConditioning", "minibar", "roomService"],
+    cancellationPolicy: CANCELLATION_POLICIES.moderate,
   },
 };
 
+/**
+ * Room type each type is upgraded to for loyalty members. Each sleeps at least as many guests.
+ */
+const ROOM_UPGRADES: Partial<Record<RoomType, RoomType>> = {
+  standard: "deluxe",
+  deluxe: "executive",
+  executive: "suite",
+};
+
+// Loyalty points earned per dollar of the stay, by hotel star rating
+const POINTS_PER_STAY_DOLLAR: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 3,
+  5: 4,
+};
+
 /**
  * Mock hotel database organized by city.
  */
@@ -517,6 +652,18 @@ const HOTELS: Record<string, Omit<Hotel, "id">[]> = {
 export const hotelSearches: Map<string, HotelSearch> = new Map();
 export const hotelBookings: Map<string, HotelBooking> = new Map();
 
+// Booked rooms per hotel room type, keyed by room ID
+export const roomInventories: Map<string, RoomInventory> = new Map();
+
+// Overall scores of reviews submitted by guests, keyed by hotel ID
+const submittedRatings: Map<string, number[]> = new Map();
+
+// Longest stay that can be searched or booked
+export const MAX_STAY_NIGHTS = 30;
+
+// Most rooms one booking can hold, across all room types
+export const MAX_ROOMS_PER_BOOKING = 4;
+
 /**
  * Get all available cities.
  */
@@ -531,6 +678,38 @@ export function getCityByName(name: string): City | undefined {
   return CITIES.find((c) => c.name.toLowerCase() === name.toLowerCase());
 }
 
+/**
+ * Find cities matching a name or country, best match first.
+ */
+export function findCities(query: string): { city: City; score: number }[] {
+  return rankMatches(query, CITIES, (c) => [c.name, c.country]).map(({ item, score }) => ({
+    city: { ...item },
+    score,
+  }));
+}
+
+/**
+ * Resolve free-form input such as "paris" or "Barcelona" to one city.
+ * Only exact or prefix matches on the name resolve; anything vaguer fails with suggestions.
+ */
+export function resolveCity(query: string): City {
+  const byName = getCityByName(query.trim());
+  if (byName) return byName;
+
+  const matches = findCities(query);
+  const [best, runnerUp] = matches;
+  if (best && best.score >= 80 && (!runnerUp || runnerUp.score < best.score)) {
+    return getCityByName(best.city.name)!;
+  }
+
+  const suggestions = matches.slice(0, 3).map((m) => m.city.name);
+  throw new Error(
+    suggestions.length > 0
+      ? `City not found: ${query}. Did you mean ${suggestions.join(", ")}?`
+      : `City not found: ${query}`
+  );
+}
+
 /**
  * Generate a unique search ID.
  */
@@ -539,18 +718,29 @@ function generateSearchId(): string {
 }
 
 /**
- * Generate a unique hotel ID.
+ * Turn a hotel name into a URL-safe slug, e.g. "le-grand-paris".
  */
-function generateHotelId(hotelName: string): string {
-  const slug = hotelName.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-  return `hotel-${slug}-${Math.random().toString(36).substring(2, 6)}`;
+function slugify(hotelName: string): string {
+  return hotelName
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
 }
 
 /**
- * Generate a unique room ID.
+ * Get the stable ID of a catalogue hotel, e.g. "hotel-le-grand-paris".
  */
-function generateRoomId(): string {
-  return `room-${Math.random().toString(36).substring(2, 8)}`;
+function getHotelId(hotelName: string): string {
+  return `hotel-${slugify(hotelName)}`;
+}
+
+/**
+ * Get the stable ID of a room type in a hotel, e.g. "room-le-grand-paris-suite".
+ */
+function getRoomId(hotelName: string, roomType: RoomType): string {
+  return `room-${slugify(hotelName)}-${roomType}`;
 }
 
 /**
@@ -566,80 +756,268 @@ function generateConfirmationNumber(): string {
 }
 
 /**
- * Calculate number of nights between two dates.
+ * Validate the dates of a stay and count its nights.
+ * Throws a DateValidationError naming the check-in or check-out field at fault.
  */
-function calculateNights(checkIn: string, checkOut: string): number {
-  const start = new Date(checkIn);
-  const end = new Date(checkOut);
-  const diffTime = Math.abs(end.getTime() - start.getTime());
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+function validateStay(checkIn: string, checkOut: string): number {
+  const checkInError = checkTravelDate("checkIn", "Check-in", checkIn);
+  const checkOutError = checkTravelDate("checkOut", "Check-out", checkOut);
+  assertValidDates([checkInError, checkOutError]);
+
+  assertValidDates([
+    checkDateOrder("checkOut", "Check-out", checkOut, {
+      date: checkIn,
+      label: "check-in",
+      minDays: 1,
+      maxDays: MAX_STAY_NIGHTS,
+    }),
+  ]);
+
+  return daysBetween(checkIn, checkOut);
 }
 
 /**
  * Generate rooms for a hotel based on its star rating.
  */
-function generateRooms(stars: number): Room[] {
+function generateRooms(hotelName: string, stars: number, random: () => number): Room[] {
   const rooms: Room[] = [];
   const bedTypes: BedType[] = ["king", "queen", "twin", "double"];
 
   // All hotels have standard rooms
   rooms.push({
-    id: generateRoomId(),
+    id: getRoomId(hotelName, "standard"),
     type: "standard",
     ...ROOM_CONFIGS.standard,
-    bedType: bedTypes[Math.floor(Math.random() * bedTypes.length)],
-    pricePerNight: Math.round(ROOM_CONFIGS.standard.basePrice * (0.8 + stars * 0.1) + Math.random() * 30),
-    available: 5 + Math.floor(Math.random() * 10),
+    bedType: bedTypes[Math.floor(random() * bedTypes.length)],
+    baseRate: Math.round(ROOM_CONFIGS.standard.basePrice * (0.8 + stars * 0.1) + random() * 30),
+    pricePerNight: 0,
+    stayPrice: 0,
+    totalRooms: 5 + Math.floor(random() * 10),
+    available: 0,
   });
 
   // 3+ star hotels have deluxe rooms
   if (stars >= 3) {
     rooms.push({
-      id: generateRoomId(),
+      id: getRoomId(hotelName, "deluxe"),
       type: "deluxe",
       ...ROOM_CONFIGS.deluxe,
       bedType: "king",
-      pricePerNight: Math.round(ROOM_CONFIGS.deluxe.basePrice * (0.8 + stars * 0.1) + Math.random() * 50),
-      available: 3 + Math.floor(Math.random() * 8),
+      baseRate: Math.round(ROOM_CONFIGS.deluxe.basePrice * (0.8 + stars * 0.1) + random() * 50),
+      pricePerNight: 0,
+      stayPrice: 0,
+      totalRooms: 3 + Math.floor(random() * 8),
+      available: 0,
     });
   }
 
   // 4+ star hotels have suites and executive rooms
   if (stars >= 4) {
     rooms.push({
-      id: generateRoomId(),
+      id: getRoomId(hotelName, "suite"),
       type: "suite",
       ...ROOM_CONFIGS.suite,
       bedType: "king",
-      pricePerNight: Math.round(ROOM_CONFIGS.suite.basePrice * (0.8 + stars * 0.15) + Math.random() * 100),
-      available: 2 + Math.floor(Math.random() * 5),
+      baseRate: Math.round(ROOM_CONFIGS.suite.basePrice * (0.8 + stars * 0.15) + random() * 100),
+      pricePerNight: 0,
+      stayPrice: 0,
+      totalRooms: 2 + Math.floor(random() * 5),
+      available: 0,
     });
 
     rooms.push({
-      id: generateRoomId(),
+      id: getRoomId(hotelName, "executive"),
       type: "executive",
       ...ROOM_CONFIGS.executive,
       bedType: "king",
-      pricePerNight: Math.round(ROOM_CONFIGS.executive.basePrice * (0.8 + stars * 0.12) + Math.random() * 60),
-      available: 2 + Math.floor(Math.random() * 6),
+      baseRate: Math.round(ROOM_CONFIGS.executive.basePrice * (0.8 + stars * 0.12) + random() * 60),
+      pricePerNight: 0,
+      stayPrice: 0,
+      totalRooms: 2 + Math.floor(random() * 6),
+      available: 0,
     });
   }
 
   // All hotels can have family rooms
   rooms.push({
-    id: generateRoomId(),
+    id: getRoomId(hotelName, "family"),
     type: "family",
     ...ROOM_CONFIGS.family,
     bedType: "double",
-    pricePerNight: Math.round(ROOM_CONFIGS.family.basePrice * (0.8 + stars * 0.1) + Math.random() * 40),
-    available: 2 + Math.floor(Math.random() * 5),
+    baseRate: Math.round(ROOM_CONFIGS.family.basePrice * (0.8 + stars * 0.1) + random() * 40),
+    pricePerNight: 0,
+    stayPrice: 0,
+    totalRooms: 2 + Math.floor(random() * 5),
+    available: 0,
   });
 
   return rooms;
 }
 
+/**
+ * List the nights of a stay by date, starting with the check-in date.
+ */
+function getStayNights(checkIn: string, nights: number): string[] {
+  return Array.from({ length: nights }, (_, i) => addDays(checkIn, i));
+}
+
+/**
+ * Get the booking inventory for one room type of a hotel, creating it on first use.
+ */
+export function getRoomInventory(roomId: string): RoomInventory {
+  let inventory = roomInventories.get(roomId);
+
+  if (!inventory) {
+    inventory = { booked: new Map() };
+    roomInventories.set(roomId, inventory);
+  }
+
+  return inventory;
+}
+
+/**
+ * Take rooms of a type out of inventory for every night of a stay.
+ */
+function reserveRooms(roomId: string, stayNights: string[], quantity: number): void {
+  const { booked } = getRoomInventory(roomId);
+  for (const night of stayNights) {
+    booked.set(night, (booked.get(night) ?? 0) + quantity);
+  }
+}
+
+/**
+ * Return rooms of a type to inventory for every night of a stay.
+ */
+function releaseRooms(roomId: string, stayNights: string[], quantity: number): void {
+  const { booked } = getRoomInventory(roomId);
+  for (const night of stayNights) {
+    const remaining = (booked.get(night) ?? 0) - quantity;
+    if (remaining > 0) {
+      booked.set(night, remaining);
+    } else {
+      booked.delete(night);
+    }
+  }
+}
+
+/**
+ * Count the rooms of a type that are free on every night of a stay.
+ */
+function countAvailableRooms(room: Room, stayNights: string[]): number {
+  const { booked } = getRoomInventory(room.id);
+  const free = stayNights.map((night) => room.totalRooms - (booked.get(night) ?? 0));
+  return Math.max(0, Math.min(...free));
+}
+
+/**
+ * Build a catalogue hotel with its seeded rooms, priced and with availability for a stay.
+ */
+function buildHotel(hotel: Omit<Hotel, "id">, seed: string, checkIn: string, nights: number): Hotel {
+  const random = createSeededRandom(seed, hotel.city, hotel.name);
+  const rooms = generateRooms(hotel.name, hotel.stars, random);
+  const stayNights = getStayNights(checkIn, nights);
+
+  for (const room of rooms) {
+    const price = priceStay(hotel.city, room.baseRate, checkIn, nights);
+    room.pricePerNight = price.averageNightlyRate;
+    room.stayPrice = price.total;
+    room.available = countAvailableRooms(room, stayNights);
+  }
+
+  const id = getHotelId(hotel.name);
+  return { ...hotel, id, ...getAggregateRating(id, hotel), rooms };
+}
+
+/**
+ * Blend the scores of reviews submitted by guests into a catalogue hotel's rating.
+ */
+function getAggregateRating(hotelId: string, hotel: Omit<Hotel, "id">): { rating: number; reviewCount: number } {
+  const scores = submittedRatings.get(hotelId) ?? [];
+  if (scores.length === 0) {
+    return { rating: hotel.rating, reviewCount: hotel.reviewCount };
+  }
+
+  const reviewCount = hotel.reviewCount + scores.length;
+  const total = hotel.rating * hotel.reviewCount + scores.reduce((sum, score) => sum + score, 0);
+  return { rating: Math.round((total / reviewCount) * 10) / 10, reviewCount };
+}
+
+/**
+ * Add the overall score of a guest's review to a hotel's aggregate rating.
+ */
+export function recordHotelRating(hotelId: string, overall: number): void {
+  submittedRatings.set(hotelId, [...(submittedRatings.get(hotelId) ?? []), overall]);
+}
+
+/**
+ * Check that search filters are consistent, throwing a descriptive error if not.
+ */
+function validateFilters(filters: HotelFilters): void {
+  if (filters.minStars !== undefined && (!Number.isInteger(filters.minStars) || filters.minStars < 1 || filters.minStars > 5)) {
+    throw new Error("minStars must be a whole number from 1 to 5");
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    throw new Error("minPrice cannot be greater than maxPrice");
+  }
+}
+
+/**
+ * Keep only the hotels that match every filter that is set.
+ */
+function applyFilters(hotels: HotelWithPricing[], filters: HotelFilters): HotelWithPricing[] {
+  const neighborhoods = filters.neighborhoods?.map((n) => n.toLowerCase());
+
+  return hotels.filter((h) =>
+    (filters.minStars === undefined || h.stars >= filters.minStars)
+    && (!filters.amenities?.length || filters.amenities.every((a) => h.amenities.includes(a)))
+    && (filters.minPrice === undefined || h.pricePerNight >= filters.minPrice)
+    && (filters.maxPrice === undefined || h.pricePerNight <= filters.maxPrice)
+    && (!neighborhoods?.length || neighborhoods.includes(h.neighborhood.toLowerCase()))
+  );
+}
+
+/**
+ * Sort hotels in place with sold out hotels last, breaking ties by rating.
+ */
+function sortHotels(hotels: HotelWithPricing[], sortBy: HotelSortBy): HotelWithPricing[] {
+  const compare: Record<HotelSortBy, (a: HotelWithPricing, b: HotelWithPricing) => number> = {
+    rating: () => 0,
+    price: (a, b) => a.pricePerNight - b.pricePerNight,
+    stars: (a, b) => b.stars - a.stars,
+    reviews: (a, b) => b.reviewCount - a.reviewCount,
+  };
+
+  return hotels.sort((a, b) => Number(a.soldOut) - Number(b.soldOut) || compare[sortBy](a, b) || b.rating - a.rating);
+}
+
+/**
+ * Group hotels by neighbourhood, in the order each neighbourhood first appears.
+ */
+export function groupByNeighborhood(hotels: HotelWithPricing[]): NeighborhoodGroup[] {
+  const groups = new Map<string, HotelWithPricing[]>();
+  for (const hotel of hotels) {
+    groups.set(hotel.neighborhood, [...(groups.get(hotel.neighborhood) ?? []), hotel]);
+  }
+
+  return [...groups].map(([neighborhood, members]) => {
+    const prices = members.filter((h) => !h.soldOut).map((h) => h.pricePerNight);
+    return {
+      neighborhood,
+      hotelIds: members.map((h) => h.id),
+      lowestPrice: prices.length > 0 ? Math.min(...prices) : null,
+      averageRating: Math.round((members.reduce((sum, h) => sum + h.rating, 0) / members.length) * 10) / 10,
+    };
+  });
+}
+
 /**
  * Search for hotels in a city.
+ * Room availability comes from the shared inventory, so room types booked out
+ * on any night of the stay show as sold out. Hotels that are sold out for the
+ * requested number of rooms are listed last.
+ * Results are sorted by guest rating unless another order is asked for.
+ * Results are reproducible for the same seed and parameters.
  */
 export function searchHotels(params: {
   city: string;
@@ -647,18 +1025,20 @@ export function searchHotels(params: {
   checkOut: string;
   guests: number;
   rooms?: number;
+  seed?: string;
+  filters?: HotelFilters;
+  sortBy?: HotelSortBy;
 }): HotelSearch {
-  const { city, checkIn, checkOut, guests, rooms = 1 } = params;
+  const { checkIn, checkOut, guests, rooms = 1, seed = getDefaultSeed(), filters, sortBy = "rating" } = params;
 
-  const cityData = getCityByName(city);
-  if (!cityData) {
-    throw new Error(`City not found: ${city}`);
+  if (filters) {
+    validateFilters(filters);
   }
 
-  const nights = calculateNights(checkIn, checkOut);
-  if (nights < 1) {
-    throw new Error("Check-out date must be after check-in date");
-  }
+  const cityData = resolveCity(params.city);
+  const city = cityData.name;
+
+  const nights = validateStay(checkIn, checkOut);
 
   const cityHotels = HOTELS[city];
   if (!cityHotels || cityHotels.length === 0) {
@@ -669,28 +1049,25 @@ export function searchHotels(params: {
 
   // Build hotels with pricing and generated rooms
   const hotelsWithPricing: HotelWithPricing[] = cityHotels.map((hotel) => {
-    const hotelWithId: Hotel = {
-      ...hotel,
-      id: generateHotelId(hotel.name),
-      rooms: generateRooms(hotel.stars),
-    };
+    const hotelWithId = buildHotel(hotel, seed, checkIn, nights);
 
-    // Find lowest room price
-    const lowestPrice = Math.min(...hotelWithId.rooms.map((r) => r.pricePerNight));
+    // Find the cheapest room type that can take the booking
+    const bookable = hotelWithId.rooms.filter((r) => r.available >= rooms);
+    const cheapest = (bookable.length > 0 ? bookable : hotelWithId.rooms)
+      .reduce((best, room) => room.stayPrice < best.stayPrice ? room : best);
 
     return {
       ...hotelWithId,
-      pricePerNight: lowestPrice,
-      totalPrice: lowestPrice * nights * rooms,
+      pricePerNight: cheapest.pricePerNight,
+      totalPrice: cheapest.stayPrice * rooms,
+      soldOut: bookable.length === 0,
     };
   });
 
-  // Sort by rating (highest first)
-  hotelsWithPricing.sort((a, b) => b.rating - a.rating);
-
   const search: HotelSearch = {
     id: searchId,
-    hotels: hotelsWithPricing,
+    hotels: sortHotels(filters ? applyFilters(hotelsWithPricing, filters) : hotelsWithPricing, sortBy),
+    unfilteredCount: hotelsWithPricing.length,
     searchParams: {
       city,
       checkIn,
@@ -698,6 +1075,9 @@ export function searchHotels(params: {
       guests,
       rooms,
       nights,
+      seed,
+      filters,
+      sortBy,
     },
   };
 
@@ -707,6 +1087,25 @@ export function searchHotels(params: {
   return search;
 }
 
+/**
+ * Get a hotel by its ID without running a search.
+ * Room availability covers the given stay, or tonight when no dates are given.
+ */
+export function getHotel(
+  hotelId: string,
+  options: { checkIn?: string; checkOut?: string; seed?: string } = {}
+): Hotel | undefined {
+  const { checkIn = serverToday(), seed = getDefaultSeed() } = options;
+  const checkOut = options.checkOut ?? addDays(checkIn, 1);
+
+  const hotel = Object.values(HOTELS).flat().find((h) => getHotelId(h.name) === hotelId);
+  if (!hotel) return undefined;
+
+  const nights = validateStay(checkIn, checkOut);
+
+  return buildHotel(hotel, seed, checkIn, nights);
+}
+
 /**
  * Get hotel search by ID.
  */
@@ -733,14 +1132,157 @@ export function selectHotel(searchId: string, hotelId: string): { hotel: HotelWi
 }
 
 /**
- * Select a room from a hotel.
+ * Check a list of room selections can be booked together and price each one.
+ * Rooms are recounted against the current inventory, and together they must
+ * sleep every guest.
+ */
+function quoteRooms(
+  hotel: Hotel,
+  selections: RoomSelection[],
+  stay: { checkIn: string; nights: number; guests: number }
+): { quotes?: RoomQuote[]; message?: string } {
+  if (selections.length === 0) {
+    return { message: "Select at least one room" };
+  }
+
+  if (new Set(selections.map((s) => s.roomId)).size !== selections.length) {
+    return { message: "Each room type can only be selected once. Use quantity for more rooms of a type." };
+  }
+
+  if (selections.some((s) => !Number.isInteger(s.quantity) || s.quantity < 1)) {
+    return { message: "Room quantities must be whole numbers of 1 or more" };
+  }
+
+  const roomCount = selections.reduce((sum, s) => sum + s.quantity, 0);
+  if (roomCount > MAX_ROOMS_PER_BOOKING) {
+    return { message: `A booking can have at most ${MAX_ROOMS_PER_BOOKING} rooms` };
+  }
+
+  const stayNights = getStayNights(stay.checkIn, stay.nights);
+  const quotes: RoomQuote[] = [];
+
+  for (const selection of selections) {
+    const room = hotel.rooms.find((r) => r.id === selection.roomId);
+    if (!room) {
+      return { message: `Room type not found: ${selection.roomId}` };
+    }
+
+    // Other bookings may have taken rooms since the search
+    room.available = countAvailableRooms(room, stayNights);
+    if (room.available === 0) {
+      return { message: `${room.name} is sold out for your dates` };
+    }
+    if (selection.quantity > room.available) {
+      return { message: `Only ${room.available} ${room.name}(s) available for your dates` };
+    }
+
+    const priceBreakdown = priceStay(hotel.city, room.baseRate, stay.checkIn, stay.nights);
+    quotes.push({ room, quantity: selection.quantity, priceBreakdown, totalPrice: priceBreakdown.total * selection.quantity });
+  }
+
+  // Each room sleeps up to its own maxGuests
+  const capacity = quotes.reduce((sum, q) => sum + q.quantity * q.room.maxGuests, 0);
+  if (capacity < stay.guests) {
+    return {
+      message: `The selected rooms sleep ${capacity} guests. You need rooms for ${stay.guests} guests.`,
+    };
+  }
+
+  return { quotes };
+}
+
+/**
+ * Describe the rooms of a quote or booking, e.g. "1 Suite and 2 Standard Room(s)".
+ */
+function describeRooms(quotes: RoomQuote[]): string {
+  return quotes.map((q) => `${q.quantity} ${q.room.name}(s)`).join(" and ");
+}
+
+/**
+ * Place each guest in a room line. Guests without a room go to the first room
+ * type that has nobody yet, then to the first room type. Every room type needs
+ * a named guest, and no room type can hold more guests than it sleeps.
+ */
+function assignGuests(quotes: RoomQuote[], guests: GuestAssignment[]): { lines?: HotelRoomLine[]; message?: string } {
+  const lines: HotelRoomLine[] = quotes.map((q) => ({ ...q, guests: [] }));
+
+  for (const { roomId, ...guest } of guests.filter((g) => g.roomId)) {
+    const line = lines.find((l) => l.room.id === roomId);
+    if (!line) {
+      return { message: `${guest.name} is assigned to ${roomId}, which is not one of the selected rooms` };
+    }
+    line.guests.push(guest);
+  }
+
+  for (const { roomId: _, ...guest } of guests.filter((g) => !g.roomId)) {
+    (lines.find((l) => l.guests.length === 0) ?? lines[0]).guests.push(guest);
+  }
+
+  const unnamed = lines.find((l) => l.guests.length === 0);
+  if (unnamed) {
+    return { message: `Add a guest for the ${unnamed.room.name}` };
+  }
+
+  const overfull = lines.find((l) => l.guests.length > l.quantity * l.room.maxGuests);
+  if (overfull) {
+    return {
+      message: `${overfull.guests.length} guests are assigned to ${overfull.quantity} ${overfull.room.name}(s), which sleep ${overfull.quantity * overfull.room.maxGuests}`,
+    };
+  }
+
+  return { lines };
+}
+
+/**
+ * Move room lines up to the next room type where enough rooms are free for the
+ * whole stay, keeping the rate and cancellation policy that were paid for.
+ * Rooms the booking already takes are counted as taken.
+ */
+function applyRoomUpgrades(hotel: Hotel, lines: HotelRoomLine[], stayNights: string[]): HotelRoomLine[] {
+  const taken: Map<string, number> = new Map();
+  for (const line of lines) {
+    taken.set(line.room.id, (taken.get(line.room.id) ?? 0) + line.quantity);
+  }
+
+  return lines.map((line) => {
+    const upgradeType = ROOM_UPGRADES[line.room.type];
+    const upgrade = upgradeType && hotel.rooms.find((r) => r.type === upgradeType);
+    if (!upgrade) return line;
+
+    const upgradeTaken = taken.get(upgrade.id) ?? 0;
+    if (countAvailableRooms(upgrade, stayNights) - upgradeTaken < line.quantity) return line;
+
+    taken.set(upgrade.id, upgradeTaken + line.quantity);
+    taken.set(line.room.id, taken.get(line.room.id)! - line.quantity);
+    return {
+      ...line,
+      room: {
+        ...upgrade,
+        pricePerNight: line.room.pricePerNight,
+        stayPrice: line.room.stayPrice,
+        cancellationPolicy: line.room.cancellationPolicy,
+      },
+      upgradedFrom: line.room,
+    };
+  });
+}
+
+/**
+ * Sum the room lines of a booking, at the rates paid.
+ */
+function sumRoomLines(lines: HotelRoomLine[]): number {
+  return lines.reduce((sum, line) => sum + line.totalPrice, 0);
+}
+
+/**
+ * Select the rooms to book at a hotel, which can mix room types.
+ * Returns the nightly rates of each room type alongside the total for every room.
  */
 export function selectRoom(
   searchId: string,
   hotelId: string,
-  roomId: string,
-  quantity: number
-): { success: boolean; message: string; room?: Room; totalPrice?: number } {
+  selections: RoomSelection[]
+): { success: boolean; message: string; rooms?: RoomQuote[]; totalPrice?: number } {
   const search = hotelSearches.get(searchId);
   if (!search) {
     return { success: false, message: "Search session not found" };
@@ -751,50 +1293,107 @@ export function selectRoom(
     return { success: false, message: "Hotel not found" };
   }
 
-  const room = hotel.rooms.find((r) => r.id === roomId);
-  if (!room) {
-    return { success: false, message: "Room type not found" };
+  const { checkIn, nights, guests } = search.searchParams;
+  const { quotes, message } = quoteRooms(hotel, selections, { checkIn, nights, guests });
+  if (!quotes) {
+    return { success: false, message: message! };
   }
 
-  if (quantity > room.available) {
-    return { success: false, message: `Only ${room.available} rooms of this type available` };
+  search.selectedHotelId = hotelId;
+  search.selectedRooms = selections;
+
+  return {
+    success: true,
+    message: `Selected ${describeRooms(quotes)} for ${nights} night(s)`,
+    rooms: quotes,
+    totalPrice: quotes.reduce((sum, q) => sum + q.totalPrice, 0),
+  };
+}
+
+/**
+ * Describe a stay for checking a promo code against it.
+ */
+function getPromoContext(hotel: Hotel, checkIn: string, checkOut: string, subtotal: number): PromoContext {
+  return { product: "hotel", subtotal, startDate: checkIn, endDate: checkOut, cities: [hotel.city] };
+}
+
+/**
+ * Apply a promo code to a search session, or remove it with an empty code.
+ * The code is checked against the selected rooms for the whole stay, before any
+ * loyalty points. It is checked again when booking.
+ */
+export function applyHotelPromo(
+  searchId: string,
+  code: string
+): {
+  success: boolean;
+  message: string;
+  promo?: AppliedPromo;
+  rooms?: RoomQuote[];
+  subtotal?: number;
+  totalPrice?: number;
+  errorCode?: PromoErrorCode;
+} {
+  const search = hotelSearches.get(searchId);
+  if (!search) {
+    return { success: false, message: "Search session not found" };
   }
 
-  if (quantity * room.maxGuests < search.searchParams.guests) {
-    return {
-      success: false,
-      message: `${quantity} ${room.name}(s) can only accommodate ${quantity * room.maxGuests} guests. You need rooms for ${search.searchParams.guests} guests.`,
-    };
+  if (!code.trim()) {
+    delete search.promoCode;
+    return { success: true, message: "Promo code removed" };
   }
 
-  search.selectedHotelId = hotelId;
-  search.selectedRoomId = roomId;
-  search.selectedQuantity = quantity;
+  const hotel = search.hotels.find((h) => h.id === search.selectedHotelId);
+  if (!hotel || !search.selectedRooms) {
+    return { success: false, message: "No room selected" };
+  }
+
+  const { checkIn, checkOut, nights, guests } = search.searchParams;
+  const { quotes, message } = quoteRooms(hotel, search.selectedRooms, { checkIn, nights, guests });
+  if (!quotes) {
+    return { success: false, message: message! };
+  }
+
+  const subtotal = quotes.reduce((sum, q) => sum + q.totalPrice, 0);
+  const { promo, failure } = evaluatePromo(code, getPromoContext(hotel, checkIn, checkOut, subtotal));
+  if (!promo) {
+    return { success: false, message: failure!.message, errorCode: failure!.errorCode };
+  }
 
-  const totalPrice = room.pricePerNight * search.searchParams.nights * quantity;
+  search.promoCode = promo.code;
 
   return {
     success: true,
-    message: `Selected ${quantity} ${room.name}(s) for ${search.searchParams.nights} night(s)`,
-    room,
-    totalPrice,
+    message: `${promo.code} applied: $${promo.discount} off`,
+    promo,
+    rooms: quotes,
+    subtotal,
+    totalPrice: subtotal - promo.discount,
   };
 }
 
 /**
- * Create a hotel booking.
+ * Create a hotel booking for the selected rooms.
+ * Guests can be placed in a room type by its ID; see assignGuests.
+ * A promo code applied to the search is checked again against the final
+ * price; if it no longer applies it is removed and the booking is not made.
+ * The booking earns loyalty points for the lead guest, who can also redeem
+ * points from their balance against the total after the promo. Members with
+ * the room upgrade perk are moved up a room type where one is free.
  */
 export function createHotelBooking(
   searchId: string,
-  guests: Guest[],
-  specialRequests?: string
-): { success: boolean; message: string; booking?: HotelBooking } {
+  guests: GuestAssignment[],
+  specialRequests?: string,
+  options: { redeemPoints?: number } = {}
+): { success: boolean; message: string; booking?: HotelBooking; promoError?: PromoFailure } {
   const search = hotelSearches.get(searchId);
   if (!search) {
     return { success: false, message: "Search session not found" };
   }
 
-  if (!search.selectedHotelId || !search.selectedRoomId || !search.selectedQuantity) {
+  if (!search.selectedHotelId || !search.selectedRooms) {
     return { success: false, message: "No room selected" };
   }
 
@@ -803,41 +1402,109 @@ export function createHotelBooking(
     return { success: false, message: "Hotel not found" };
   }
 
-  const room = hotel.rooms.find((r) => r.id === search.selectedRoomId);
-  if (!room) {
-    return { success: false, message: "Room not found" };
-  }
-
   if (guests.length === 0) {
     return { success: false, message: "At least one guest is required" };
   }
 
-  const totalPrice = room.pricePerNight * search.searchParams.nights * search.selectedQuantity;
+  const { checkIn, checkOut, nights } = search.searchParams;
+  const quote = quoteRooms(hotel, search.selectedRooms, { checkIn, nights, guests: search.searchParams.guests });
+  if (!quote.quotes) {
+    return { success: false, message: `${quote.message}. Please choose your rooms again.` };
+  }
+
+  const assigned = assignGuests(quote.quotes, guests);
+  if (!assigned.lines) {
+    return { success: false, message: assigned.message! };
+  }
+
+  const roomTotal = sumRoomLines(assigned.lines);
+  const member = getLoyaltyAccount(guests[0].email);
+
+  let promo: AppliedPromo | undefined;
+  if (search.promoCode) {
+    const evaluation = evaluatePromo(search.promoCode, getPromoContext(hotel, checkIn, checkOut, roomTotal));
+    if (!evaluation.promo) {
+      delete search.promoCode;
+      return {
+        success: false,
+        message: `${evaluation.failure!.message}, so the code has been removed. Book again to continue without it.`,
+        promoError: evaluation.failure,
+      };
+    }
+    promo = evaluation.promo;
+  }
+  const promoDiscount = promo?.discount ?? 0;
+
+  let pointsDiscount = 0;
+  if (options.redeemPoints) {
+    if (!member) {
+      return { success: false, message: `${guests[0].email} has no loyalty account yet, so there are no points to redeem` };
+    }
+    const redemption = checkRedemption(member, options.redeemPoints, roomTotal - promoDiscount);
+    if (redemption.discount === undefined) {
+      return { success: false, message: redemption.message! };
+    }
+    pointsDiscount = redemption.discount;
+  }
+
+  const upgradeRooms = member ? hasPerk(member, "room-upgrade") : false;
+  const stayNights = getStayNights(checkIn, nights);
+  const lines = upgradeRooms ? applyRoomUpgrades(hotel, assigned.lines, stayNights) : assigned.lines;
+
+  // Take the rooms out of inventory for every night of the stay
+  for (const line of lines) {
+    reserveRooms(line.room.id, stayNights, line.quantity);
+    const room = hotel.rooms.find((r) => r.id === line.room.id);
+    if (room) room.available -= line.quantity;
+  }
+
   const confirmationNumber = generateConfirmationNumber();
 
+  // The lead guest joins the loyalty programme on their first booking
+  const account = member ?? getOrCreateLoyaltyAccount(guests[0].name, guests[0].email);
+  const loyalty: BookingLoyalty = {
+    memberId: account.memberId,
+    tier: account.tier,
+    pointsEarned: calculatePointsEarned(account.tier, roomTotal, POINTS_PER_STAY_DOLLAR[hotel.stars]),
+    pointsRedeemed: options.redeemPoints ?? 0,
+    pointsDiscount,
+    perks: upgradeRooms ? ["room-upgrade"] : [],
+  };
+
   const booking: HotelBooking = {
     confirmationNumber,
+    status: "confirmed",
     hotel,
-    room,
-    roomQuantity: search.selectedQuantity,
-    guests,
-    checkIn: search.searchParams.checkIn,
-    checkOut: search.searchParams.checkOut,
-    nights: search.searchParams.nights,
-    totalPrice,
+    rooms: lines,
+    guests: lines.flatMap((line) => line.guests),
+    guestCount: search.searchParams.guests,
+    checkIn,
+    checkOut,
+    nights,
+    totalPrice: roomTotal - promoDiscount - pointsDiscount,
+    promo,
+    loyalty,
     specialRequests,
-    bookedAt: new Date().toISOString(),
+    bookedAt: new Date(now()).toISOString(),
   };
 
   // Store booking
   hotelBookings.set(confirmationNumber, booking);
+  settleBookingPoints(loyalty, confirmationNumber, `stay at ${hotel.name}`);
+  if (promo) recordPromoUse(promo.code);
 
   // Clear the search session
   hotelSearches.delete(searchId);
 
   return {
     success: true,
-    message: `Booking confirmed! Your confirmation number is ${confirmationNumber}`,
+    message: `Booking confirmed! Your confirmation number is ${confirmationNumber}${
+      promo ? `. ${promo.code} saved you $${promo.discount}` : ""
+    }. You earned ${loyalty.pointsEarned} loyalty points${
+      lines.some((line) => line.upgradedFrom)
+        ? ` and your rooms were upgraded as a ${getTierBenefits(loyalty.tier).name} member`
+        : ""
+    }.`,
     booking,
   };
 }
@@ -846,5 +1513,187 @@ export function createHotelBooking(
  * Get booking by confirmation number.
  */
 export function getHotelBooking(confirmationNumber: string): HotelBooking | undefined {
-  return hotelBookings.get(confirmationNumber);
+  return hotelBookings.get(confirmationNumber.toUpperCase());
+}
+
+/**
+ * Look up a hotel booking that can still be changed.
+ */
+function getConfirmedHotelBooking(confirmationNumber: string): { booking?: HotelBooking; message?: string } {
+  const booking = getHotelBooking(confirmationNumber);
+  if (!booking) {
+    return { message: `Booking ${confirmationNumber} not found` };
+  }
+  if (booking.status !== "confirmed") {
+    return { message: `Booking ${booking.confirmationNumber} has been cancelled` };
+  }
+  if (booking.checkIn < serverToday()) {
+    return { message: `The stay for booking ${booking.confirmationNumber} has already started` };
+  }
+  return { booking };
+}
+
+/**
+ * Return every room of a booking to inventory for its current stay.
+ */
+function releaseBookingRooms(booking: HotelBooking): void {
+  const stayNights = getStayNights(booking.checkIn, booking.nights);
+  for (const line of booking.rooms) {
+    releaseRooms(line.room.id, stayNights, line.quantity);
+  }
+}
+
+/**
+ * Take every room of a booking out of inventory for its current stay.
+ */
+function reserveBookingRooms(booking: HotelBooking): void {
+  const stayNights = getStayNights(booking.checkIn, booking.nights);
+  for (const line of booking.rooms) {
+    reserveRooms(line.room.id, stayNights, line.quantity);
+  }
+}
+
+/**
+ * Change the dates or rooms of a booking. New rooms replace the whole room list.
+ * The booked rooms go back into inventory before the new ones are taken, so a
+ * booking can move within nights it already holds. Guests stay in their room
+ * type when it is kept, and room upgrades are applied again. The price, promo
+ * discount and points earned are recalculated for the new stay and the price
+ * difference returned.
+ */
+export function modifyHotelBooking(
+  confirmationNumber: string,
+  changes: { checkIn?: string; checkOut?: string; rooms?: RoomSelection[] }
+): {
+  success: boolean;
+  message: string;
+  booking?: HotelBooking;
+  priceDifference?: number;
+  dateErrors?: DateError[];
+} {
+  const { booking, message } = getConfirmedHotelBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: message! };
+  }
+
+  const checkIn = changes.checkIn ?? booking.checkIn;
+  const checkOut = changes.checkOut ?? booking.checkOut;
+  const selections = changes.rooms
+    ?? booking.rooms.map((line) => ({ roomId: (line.upgradedFrom ?? line.room).id, quantity: line.quantity }));
+
+  let nights: number;
+  try {
+    nights = validateStay(checkIn, checkOut);
+  } catch (error) {
+    if (error instanceof DateValidationError) {
+      return { success: false, message: error.message, dateErrors: error.errors };
+    }
+    throw error;
+  }
+
+  // Free the current rooms first, and put them back if the new ones cannot be booked
+  releaseBookingRooms(booking);
+
+  const quote = quoteRooms(booking.hotel, selections, { checkIn, nights, guests: booking.guestCount });
+  const guests = booking.rooms.flatMap((line) => line.guests.map((guest) => ({ ...guest, roomId: (line.upgradedFrom ?? line.room).id })))
+    .map((guest) => (selections.some((s) => s.roomId === guest.roomId) ? guest : { ...guest, roomId: undefined }));
+  const assigned = quote.quotes ? assignGuests(quote.quotes, guests) : { lines: undefined, message: quote.message };
+  if (!assigned.lines) {
+    reserveBookingRooms(booking);
+    return { success: false, message: assigned.message! };
+  }
+
+  const previousTotal = booking.totalPrice;
+
+  const lines = assigned.lines.map((line) => ({
+    ...line,
+    room: { ...line.room, pricePerNight: line.priceBreakdown.averageNightlyRate, stayPrice: line.priceBreakdown.total },
+  }));
+  booking.rooms = booking.loyalty.perks.includes("room-upgrade")
+    ? applyRoomUpgrades(booking.hotel, lines, getStayNights(checkIn, nights))
+    : lines;
+  booking.checkIn = checkIn;
+  booking.checkOut = checkOut;
+  booking.nights = nights;
+
+  // The promo is worked out again for the new price, without re-checking its
+  // limits. Points already redeemed cover at most what is left; any over go back
+  const roomTotal = sumRoomLines(booking.rooms);
+  if (booking.promo) {
+    booking.promo.discount = calculatePromoDiscount(getPromoRule(booking.promo.code)!, roomTotal);
+  }
+  const promoDiscount = booking.promo?.discount ?? 0;
+  adjustBookingPoints(
+    booking.loyalty,
+    {
+      pointsEarned: calculatePointsEarned(booking.loyalty.tier, roomTotal, POINTS_PER_STAY_DOLLAR[booking.hotel.stars]),
+      pointsDiscount: Math.min(booking.loyalty.pointsDiscount, roomTotal - promoDiscount),
+    },
+    booking.confirmationNumber,
+    `stay at ${booking.hotel.name}`
+  );
+  booking.totalPrice = roomTotal - promoDiscount - booking.loyalty.pointsDiscount;
+  booking.modifiedAt = new Date(now()).toISOString();
+
+  reserveBookingRooms(booking);
+  for (const line of booking.rooms) {
+    const room = booking.hotel.rooms.find((r) => r.id === line.room.id);
+    if (room) room.available -= line.quantity;
+  }
+
+  return {
+    success: true,
+    message: `Booking ${booking.confirmationNumber} changed to ${describeRooms(booking.rooms)}, ${checkIn} to ${checkOut}`,
+    booking,
+    priceDifference: booking.totalPrice - previousTotal,
+  };
+}
+
+/**
+ * Calculate the refund for cancelling a hotel booking today.
+ * Each room line is refunded under its own rate's cancellation policy, on what
+ * was paid for it once its share of any promo discount is taken off. Points
+ * redeemed are returned to the member, so the cash refund is at most the total paid.
+ */
+export function calculateHotelRefund(booking: HotelBooking): number {
+  const today = serverToday();
+  const roomTotal = sumRoomLines(booking.rooms);
+  const paidShare = roomTotal > 0 ? (roomTotal - (booking.promo?.discount ?? 0)) / roomTotal : 0;
+  const refund = booking.rooms.reduce(
+    (sum, line) =>
+      sum + Math.round(line.totalPrice * paidShare * getRefundPercent(line.room.cancellationPolicy, booking.checkIn, today)),
+    0
+  );
+  return Math.min(refund, booking.totalPrice);
+}
+
+/**
+ * Cancel a hotel booking, return its rooms to inventory and record the refund.
+ */
+export function cancelHotelBooking(
+  confirmationNumber: string
+): { success: boolean; message: string; booking?: HotelBooking; refundAmount?: number } {
+  const { booking, message } = getConfirmedHotelBooking(confirmationNumber);
+  if (!booking) {
+    return { success: false, message: message! };
+  }
+
+  const refundAmount = calculateHotelRefund(booking);
+
+  releaseBookingRooms(booking);
+
+  booking.status = "cancelled";
+  booking.cancelledAt = new Date(now()).toISOString();
+  booking.refundAmount = refundAmount;
+  reverseBookingPoints(booking.loyalty, booking.confirmationNumber, `stay at ${booking.hotel.name}`);
+  if (booking.promo) releasePromoUse(booking.promo.code);
+
+  return {
+    success: true,
+    message: `Booking ${booking.confirmationNumber} cancelled. Refund: $${refundAmount.toFixed(2)}${
+      booking.loyalty.pointsRedeemed > 0 ? ` and ${booking.loyalty.pointsRedeemed} points returned` : ""
+    }`,
+    booking,
+    refundAmount,
+  };
 }
@@ -0,0 +1,69 @@
+/**
+ * Location lookup shared by the Airline and Hotel Booking demos.
+ * Combines airports and hotel cities into one ranked list for autocomplete.
+ */
+
+import { findAirports } from "./flights.js";
+import { findCities } from "./hotels.js";
+
+export type LocationType = "airport" | "city";
+
+/**
+ * A ranked airport or city matching a lookup query.
+ */
+export interface LocationMatch {
+  type: LocationType;
+  code?: string; // Airport code, only set for airports
+  name: string;
+  city: string;
+  country: string;
+  label: string; // Display text, e.g. "New York (JFK) – John F. Kennedy International"
+  score: number; // 0-100, higher is a closer match
+}
+
+/**
+ * Look up airports and/or cities matching free-form input, best match first.
+ */
+export function lookupLocation(params: {
+  query: string;
+  type?: LocationType | "any";
+  limit?: number;
+}): LocationMatch[] {
+  const { query, type = "any", limit = 5 } = params;
+
+  if (!query.trim()) {
+    throw new Error("Query cannot be empty");
+  }
+
+  const matches: LocationMatch[] = [];
+
+  if (type !== "city") {
+    for (const { airport, score } of findAirports(query)) {
+      matches.push({
+        type: "airport",
+        code: airport.code,
+        name: airport.name,
+        city: airport.city,
+        country: airport.country,
+        label: `${airport.city} (${airport.code}) – ${airport.name}`,
+        score,
+      });
+    }
+  }
+
+  if (type !== "airport") {
+    for (const { city, score } of findCities(query)) {
+      matches.push({
+        type: "city",
+        name: city.name,
+        city: city.name,
+        country: city.country,
+        label: `${city.name}, ${city.country}`,
+        score,
+      });
+    }
+  }
+
+  // Stable sort keeps airports ahead of cities on equal scores
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
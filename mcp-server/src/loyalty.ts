@@ -0,0 +1,294 @@
+/**
+ * Loyalty programme shared by the booking demos.
+ * Flight and hotel bookings earn points for the lead traveller's account, which
+ * is opened on their first booking. Points earned count towards tiers with
+ * perks, and the balance can be redeemed against the price of later bookings.
+ */
+
+import { now } from "./clock.js";
+
+export type LoyaltyTier = "blue" | "silver" | "gold" | "platinum";
+export type LoyaltyPerk = "free-seat-selection" | "room-upgrade";
+export type LoyaltyTransactionType = "earn" | "redeem" | "reverse" | "refund" | "adjust";
+
+/**
+ * Qualifying threshold and benefits of one tier.
+ */
+export interface TierBenefits {
+  tier: LoyaltyTier;
+  name: string;
+  minTierPoints: number; // Points earned to reach the tier
+  earnBonus: number; // Extra points on every booking, 0-1
+  perks: LoyaltyPerk[];
+}
+
+/**
+ * One change to an account's points balance.
+ */
+export interface LoyaltyTransaction {
+  id: string;
+  type: LoyaltyTransactionType;
+  points: number; // Negative when points leave the account
+  description: string;
+  confirmationNumber?: string;
+  createdAt: string;
+}
+
+/**
+ * A member's loyalty account.
+ */
+export interface LoyaltyAccount {
+  memberId: string;
+  name: string;
+  email: string;
+  tier: LoyaltyTier;
+  balance: number; // Points available to redeem
+  tierPoints: number; // Points earned and kept, which set the tier
+  history: LoyaltyTransaction[]; // Newest first
+  joinedAt: string;
+}
+
+/**
+ * Loyalty details recorded on a flight or hotel booking.
+ */
+export interface BookingLoyalty {
+  memberId: string;
+  tier: LoyaltyTier; // Tier when booked
+  pointsEarned: number;
+  pointsRedeemed: number;
+  pointsDiscount: number; // Amount taken off the total by the points redeemed
+  perks: LoyaltyPerk[]; // Tier perks the booking gets, kept if the tier changes
+}
+
+// In-memory storage for loyalty accounts, keyed by member ID
+export const loyaltyAccounts: Map<string, LoyaltyAccount> = new Map();
+
+// Points redeemed for each dollar off a booking
+export const POINTS_PER_DOLLAR = 100;
+
+/**
+ * Tiers from lowest to highest.
+ */
+export const LOYALTY_TIERS: TierBenefits[] = [
+  { tier: "blue", name: "Blue", minTierPoints: 0, earnBonus: 0, perks: [] },
+  { tier: "silver", name: "Silver", minTierPoints: 5000, earnBonus: 0.25, perks: ["free-seat-selection"] },
+  { tier: "gold", name: "Gold", minTierPoints: 15000, earnBonus: 0.5, perks: ["free-seat-selection", "room-upgrade"] },
+  { tier: "platinum", name: "Platinum", minTierPoints: 40000, earnBonus: 1, perks: ["free-seat-selection", "room-upgrade"] },
+];
+
+// What each perk gives, for summaries
+export const PERK_DESCRIPTIONS: Record<LoyaltyPerk, string> = {
+  "free-seat-selection": "Free seat selection on flights",
+  "room-upgrade": "Free upgrade to the next room type when available",
+};
+
+/**
+ * Generate a unique member ID, e.g. "TM48213907".
+ */
+function generateMemberId(): string {
+  let id: string;
+  do {
+    id = `TM${Math.floor(10000000 + Math.random() * 90000000)}`;
+  } while (loyaltyAccounts.has(id));
+  return id;
+}
+
+/**
+ * Generate a unique transaction ID.
+ */
+function generateTransactionId(): string {
+  return `points-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Get the benefits of a tier.
+ */
+export function getTierBenefits(tier: LoyaltyTier): TierBenefits {
+  return LOYALTY_TIERS.find((t) => t.tier === tier)!;
+}
+
+/**
+ * Find the highest tier reached with a number of tier points.
+ */
+function getTierForPoints(tierPoints: number): LoyaltyTier {
+  return [...LOYALTY_TIERS].reverse().find((t) => tierPoints >= t.minTierPoints)!.tier;
+}
+
+/**
+ * Get the next tier above a member's current one and the points still needed, if any.
+ */
+export function getNextTier(account: LoyaltyAccount): { tier: TierBenefits; pointsNeeded: number } | undefined {
+  const next = LOYALTY_TIERS.find((t) => t.minTierPoints > account.tierPoints);
+  return next && { tier: next, pointsNeeded: next.minTierPoints - account.tierPoints };
+}
+
+/**
+ * Check whether a member's tier includes a perk.
+ */
+export function hasPerk(account: LoyaltyAccount, perk: LoyaltyPerk): boolean {
+  return getTierBenefits(account.tier).perks.includes(perk);
+}
+
+/**
+ * Look up an account by member ID or email address.
+ */
+export function getLoyaltyAccount(memberIdOrEmail: string): LoyaltyAccount | undefined {
+  const key = memberIdOrEmail.trim();
+  return loyaltyAccounts.get(key.toUpperCase())
+    ?? [...loyaltyAccounts.values()].find((account) => account.email === key.toLowerCase());
+}
+
+/**
+ * Get the account for a traveller's email address, opening one if they are not a member yet.
+ */
+export function getOrCreateLoyaltyAccount(name: string, email: string): LoyaltyAccount {
+  const existing = getLoyaltyAccount(email);
+  if (existing) return existing;
+
+  const account: LoyaltyAccount = {
+    memberId: generateMemberId(),
+    name: name.trim(),
+    email: email.trim().toLowerCase(),
+    tier: "blue",
+    balance: 0,
+    tierPoints: 0,
+    history: [],
+    joinedAt: new Date(now()).toISOString(),
+  };
+
+  loyaltyAccounts.set(account.memberId, account);
+  return account;
+}
+
+/**
+ * Work out the points a booking earns at a tier.
+ * The base rate per dollar is set by the cabin or hotel star level.
+ */
+export function calculatePointsEarned(tier: LoyaltyTier, amount: number, pointsPerDollar: number): number {
+  return Math.round(amount * pointsPerDollar * (1 + getTierBenefits(tier).earnBonus));
+}
+
+/**
+ * Check points can be redeemed against a price, and work out the discount.
+ * Points are redeemed in blocks worth one dollar and cannot take more than the price.
+ */
+export function checkRedemption(
+  account: LoyaltyAccount,
+  points: number,
+  price: number
+): { discount?: number; message?: string } {
+  if (!Number.isInteger(points) || points <= 0 || points % POINTS_PER_DOLLAR !== 0) {
+    return { message: `Points are redeemed in multiples of ${POINTS_PER_DOLLAR} ($1 each)` };
+  }
+  if (points > account.balance) {
+    return { message: `Member ${account.memberId} has ${account.balance} points, not enough to redeem ${points}` };
+  }
+
+  const discount = points / POINTS_PER_DOLLAR;
+  if (discount > price) {
+    return { message: `${points} points are worth $${discount}, more than the $${price} price` };
+  }
+
+  return { discount };
+}
+
+/**
+ * Add a transaction to an account, updating its balance and tier.
+ * Earned points and their reversals also count towards the tier.
+ */
+function recordTransaction(
+  account: LoyaltyAccount,
+  transaction: { type: LoyaltyTransactionType; points: number; description: string; confirmationNumber?: string }
+): LoyaltyTransaction {
+  const entry: LoyaltyTransaction = {
+    ...transaction,
+    id: generateTransactionId(),
+    createdAt: new Date(now()).toISOString(),
+  };
+
+  account.history.unshift(entry);
+  account.balance += transaction.points;
+  if (transaction.type === "earn" || transaction.type === "reverse" || transaction.type === "adjust") {
+    account.tierPoints = Math.max(0, account.tierPoints + transaction.points);
+    account.tier = getTierForPoints(account.tierPoints);
+  }
+
+  return entry;
+}
+
+/**
+ * Record the points earned and redeemed when a booking is made.
+ */
+export function settleBookingPoints(loyalty: BookingLoyalty, confirmationNumber: string, description: string): void {
+  const account = loyaltyAccounts.get(loyalty.memberId)!;
+
+  if (loyalty.pointsRedeemed > 0) {
+    recordTransaction(account, {
+      type: "redeem",
+      points: -loyalty.pointsRedeemed,
+      description: `$${loyalty.pointsDiscount} off ${description}`,
+      confirmationNumber,
+    });
+  }
+
+  recordTransaction(account, { type: "earn", points: loyalty.pointsEarned, description: `Booked ${description}`, confirmationNumber });
+}
+
+/**
+ * Take back the points a cancelled booking earned and return the points redeemed on it.
+ * The balance can go negative when earned points were already spent.
+ */
+export function reverseBookingPoints(loyalty: BookingLoyalty, confirmationNumber: string, description: string): void {
+  const account = loyaltyAccounts.get(loyalty.memberId)!;
+
+  if (loyalty.pointsEarned > 0) {
+    recordTransaction(account, {
+      type: "reverse",
+      points: -loyalty.pointsEarned,
+      description: `Cancelled ${description}`,
+      confirmationNumber,
+    });
+  }
+
+  if (loyalty.pointsRedeemed > 0) {
+    recordTransaction(account, {
+      type: "refund",
+      points: loyalty.pointsRedeemed,
+      description: `Points returned for cancelled ${description}`,
+      confirmationNumber,
+    });
+  }
+}
+
+/**
+ * Update the points of a booking whose price changed.
+ * The difference in points earned is posted as an adjustment, and redeemed
+ * points no longer needed to cover the new price are returned.
+ */
+export function adjustBookingPoints(
+  loyalty: BookingLoyalty,
+  changes: { pointsEarned: number; pointsDiscount: number },
+  confirmationNumber: string,
+  description: string
+): void {
+  const account = loyaltyAccounts.get(loyalty.memberId)!;
+
+  const earnedDifference = changes.pointsEarned - loyalty.pointsEarned;
+  if (earnedDifference !== 0) {
+    recordTransaction(account, { type: "adjust", points: earnedDifference, description: `Changed ${description}`, confirmationNumber });
+  }
+
+  const returnedPoints = (loyalty.pointsDiscount - changes.pointsDiscount) * POINTS_PER_DOLLAR;
+  if (returnedPoints > 0) {
+    recordTransaction(account, {
+      type: "refund",
+      points: returnedPoints,
+      description: `Points returned for changed ${description}`,
+      confirmationNumber,
+    });
+  }
+
+  loyalty.pointsEarned = changes.pointsEarned;
+  loyalty.pointsRedeemed -= Math.max(0, returnedPoints);
+  loyalty.pointsDiscount = changes.pointsDiscount;
+}
@@ -0,0 +1,78 @@
+/**
+ * Fuzzy text matching used to look up airports and cities from free-form input.
+ * Scores run from 0 (no match) to 100 (exact match).
+ */
+
+/**
+ * Lowercase, strip accents and collapse punctuation so "São Paulo" matches "sao paulo".
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Count the single-character edits needed to turn one string into another.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query matches one candidate string.
+ * Exact, prefix and word-prefix matches rank above substrings; small typos
+ * still score, so "Tokio" finds "Tokyo".
+ */
+function scoreCandidate(query: string, candidate: string): number {
+  if (!query || !candidate) return 0;
+  if (candidate === query) return 100;
+  if (candidate.startsWith(query)) return 80;
+  if (candidate.split(" ").some((word) => word.startsWith(query))) return 70;
+  if (candidate.includes(query)) return 60;
+
+  // Compare against the start of the candidate so partial input can still match
+  const allowedEdits = Math.floor(query.length / 4);
+  const distance = Math.min(
+    editDistance(query, candidate),
+    editDistance(query, candidate.slice(0, query.length))
+  );
+
+  return allowedEdits > 0 && distance <= allowedEdits ? 40 - distance * 10 : 0;
+}
+
+/**
+ * Score a query against several fields of one item, keeping the best field.
+ */
+export function scoreTextMatch(query: string, fields: string[]): number {
+  const normalized = normalizeText(query);
+  return Math.max(0, ...fields.map((field) => scoreCandidate(normalized, normalizeText(field))));
+}
+
+/**
+ * Rank items by how well they match a query, dropping items that do not match.
+ */
+export function rankMatches<T>(
+  query: string,
+  items: T[],
+  fields: (item: T) => string[]
+): { item: T; score: number }[] {
+  return items
+    .map((item) => ({ item, score: scoreTextMatch(query, fields(item)) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
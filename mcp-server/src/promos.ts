@@ -0,0 +1,261 @@
+/**
+ * Promo codes shared by the booking demos.
+ * Each code is a rule with a percentage or fixed discount and optional limits:
+ * a minimum spend, the dates it can be booked and travelled on, the routes or
+ * cities it covers and how many times it can be used. A code is checked against
+ * a booking's subtotal and trip details, and the first limit it fails is
+ * reported with a code the apps can use to explain why.
+ */
+
+import { today } from "./clock.js";
+
+export type PromoDiscountType = "percent" | "fixed";
+export type PromoProduct = "flight" | "hotel" | "any";
+
+export type PromoErrorCode =
+  | "not-found"
+  | "wrong-product"
+  | "not-started"
+  | "expired"
+  | "travel-dates"
+  | "route"
+  | "city"
+  | "min-spend"
+  | "used-up";
+
+/**
+ * A promo code and the limits on where it applies.
+ */
+export interface PromoRule {
+  code: string;
+  description: string;
+  product: PromoProduct;
+  discountType: PromoDiscountType;
+  amount: number; // Percent off (0-100) or dollars off
+  maxDiscount?: number; // Cap on a percentage discount, in dollars
+  minSpend?: number; // Subtotal needed before the discount
+  validFrom?: string; // First day the code can be booked, YYYY-MM-DD
+  validUntil?: string; // Last day the code can be booked
+  travelFrom?: string; // Every travel date must fall on or after this day
+  travelUntil?: string; // Every travel date must fall on or before this day
+  routes?: string[]; // Airport pairs like "JFK-LHR", in either direction
+  cities?: string[]; // Destination cities
+  maxUses?: number; // Bookings the code can be used on in total
+}
+
+/**
+ * The booking a promo code is checked against.
+ */
+export interface PromoContext {
+  product: "flight" | "hotel";
+  subtotal: number; // Price before promo and points
+  startDate: string; // First travel date (departure or check-in)
+  endDate: string; // Last travel date (last departure or check-out)
+  routes?: string[]; // Airport pairs flown, e.g. "JFK-LHR"
+  cities: string[]; // Cities visited
+}
+
+/**
+ * A promo code applied to a search session or booking.
+ */
+export interface AppliedPromo {
+  code: string;
+  description: string;
+  discount: number;
+}
+
+/**
+ * Why a promo code does not apply.
+ */
+export interface PromoFailure {
+  errorCode: PromoErrorCode;
+  message: string;
+}
+
+/**
+ * Sample promo codes for the demo.
+ */
+export const PROMO_RULES: PromoRule[] = [
+  {
+    code: "WELCOME10",
+    description: "10% off your booking, up to $100",
+    product: "any",
+    discountType: "percent",
+    amount: 10,
+    maxDiscount: 100,
+    minSpend: 200,
+  },
+  {
+    code: "FLY50",
+    description: "$50 off flights over $300",
+    product: "flight",
+    discountType: "fixed",
+    amount: 50,
+    minSpend: 300,
+  },
+  {
+    code: "ATLANTIC75",
+    description: "$75 off flights between New York and London or Paris",
+    product: "flight",
+    discountType: "fixed",
+    amount: 75,
+    routes: ["JFK-LHR", "JFK-CDG"],
+  },
+  {
+    code: "LONDON20",
+    description: "20% off hotels in London, up to $150",
+    product: "hotel",
+    discountType: "percent",
+    amount: 20,
+    maxDiscount: 150,
+    cities: ["London"],
+  },
+  {
+    code: "WINTERSTAY",
+    description: "15% off hotel stays between December and February",
+    product: "hotel",
+    discountType: "percent",
+    amount: 15,
+    travelFrom: "2026-12-01",
+    travelUntil: "2027-02-28",
+  },
+  {
+    code: "FIRST100",
+    description: "$25 off for the first 100 bookings",
+    product: "any",
+    discountType: "fixed",
+    amount: 25,
+    maxUses: 100,
+  },
+  {
+    code: "SUMMER25",
+    description: "25% off summer bookings, up to $200",
+    product: "any",
+    discountType: "percent",
+    amount: 25,
+    maxDiscount: 200,
+    validFrom: "2026-06-01",
+    validUntil: "2026-08-31",
+  },
+];
+
+// Bookings each code has been used on, keyed by code
+export const promoUses: Map<string, number> = new Map();
+
+/**
+ * Format a route pair so either direction matches, e.g. "LHR-JFK" -> "JFK-LHR".
+ */
+function normalizeRoute(route: string): string {
+  return route.toUpperCase().split("-").sort().join("-");
+}
+
+/**
+ * One limit of a promo rule. Returns why the booking fails it, if it does.
+ */
+type PromoCheck = (rule: PromoRule, context: PromoContext) => PromoFailure | undefined;
+
+/**
+ * The limits every code is checked against, in the order they are reported.
+ */
+const PROMO_CHECKS: PromoCheck[] = [
+  (rule, context) =>
+    rule.product !== "any" && rule.product !== context.product
+      ? { errorCode: "wrong-product", message: `${rule.code} can only be used on ${rule.product} bookings` }
+      : undefined,
+  (rule) =>
+    rule.validFrom && today() < rule.validFrom
+      ? { errorCode: "not-started", message: `${rule.code} can be used from ${rule.validFrom}` }
+      : undefined,
+  (rule) =>
+    rule.validUntil && today() > rule.validUntil
+      ? { errorCode: "expired", message: `${rule.code} expired on ${rule.validUntil}` }
+      : undefined,
+  (rule, context) =>
+    (rule.travelFrom && context.startDate < rule.travelFrom) || (rule.travelUntil && context.endDate > rule.travelUntil)
+      ? {
+          errorCode: "travel-dates",
+          message: `${rule.code} is only for travel ${
+            rule.travelFrom && rule.travelUntil
+              ? `between ${rule.travelFrom} and ${rule.travelUntil}`
+              : rule.travelFrom ? `from ${rule.travelFrom}` : `until ${rule.travelUntil}`
+          }`,
+        }
+      : undefined,
+  (rule, context) => {
+    if (!rule.routes) return undefined;
+    const allowed = rule.routes.map(normalizeRoute);
+    return (context.routes ?? []).some((route) => allowed.includes(normalizeRoute(route)))
+      ? undefined
+      : { errorCode: "route", message: `${rule.code} is only for flights on ${rule.routes.join(", ")}` };
+  },
+  (rule, context) => {
+    if (!rule.cities) return undefined;
+    const allowed = rule.cities.map((city) => city.toLowerCase());
+    return context.cities.some((city) => allowed.includes(city.toLowerCase()))
+      ? undefined
+      : { errorCode: "city", message: `${rule.code} is only for trips to ${rule.cities.join(", ")}` };
+  },
+  (rule, context) =>
+    rule.minSpend && context.subtotal < rule.minSpend
+      ? { errorCode: "min-spend", message: `${rule.code} needs a spend of at least $${rule.minSpend}` }
+      : undefined,
+  (rule) =>
+    rule.maxUses !== undefined && (promoUses.get(rule.code) ?? 0) >= rule.maxUses
+      ? { errorCode: "used-up", message: `${rule.code} has reached its limit of ${rule.maxUses} uses` }
+      : undefined,
+];
+
+/**
+ * Find a promo rule by code, ignoring case and spaces around it.
+ */
+export function getPromoRule(code: string): PromoRule | undefined {
+  const key = code.trim().toUpperCase();
+  return PROMO_RULES.find((rule) => rule.code === key);
+}
+
+/**
+ * Work out the discount a rule gives on a subtotal.
+ * Percentages round to whole dollars, and no discount is more than the subtotal.
+ */
+export function calculatePromoDiscount(rule: PromoRule, subtotal: number): number {
+  const discount = rule.discountType === "percent"
+    ? Math.min(Math.round((subtotal * rule.amount) / 100), rule.maxDiscount ?? Infinity)
+    : rule.amount;
+  return Math.max(0, Math.min(discount, subtotal));
+}
+
+/**
+ * Check a promo code against a booking and work out its discount.
+ */
+export function evaluatePromo(
+  code: string,
+  context: PromoContext
+): { promo?: AppliedPromo; failure?: PromoFailure } {
+  const rule = getPromoRule(code);
+  if (!rule) {
+    return { failure: { errorCode: "not-found", message: `Promo code ${code.trim().toUpperCase()} is not valid` } };
+  }
+
+  for (const check of PROMO_CHECKS) {
+    const failure = check(rule, context);
+    if (failure) return { failure };
+  }
+
+  return {
+    promo: { code: rule.code, description: rule.description, discount: calculatePromoDiscount(rule, context.subtotal) },
+  };
+}
+
+/**
+ * Count a booking against a code's usage cap.
+ */
+export function recordPromoUse(code: string): void {
+  promoUses.set(code, (promoUses.get(code) ?? 0) + 1);
+}
+
+/**
+ * Give back the use of a code when its booking is cancelled.
+ */
+export function releasePromoUse(code: string): void {
+  promoUses.set(code, Math.max(0, (promoUses.get(code) ?? 0) - 1));
+}
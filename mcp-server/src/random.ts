@@ -0,0 +1,40 @@
+/**
+ * Seeded random number helpers for the mock travel data.
+ * Results are a pure function of the seed and the parts passed in, so the same
+ * search always produces the same flights, rooms and prices.
+ */
+
+// Fallback seed when neither a tool argument nor MOCK_DATA_SEED is given
+const DEFAULT_SEED = "mcp-apps-demo";
+
+/**
+ * Get the seed configured for the server via the MOCK_DATA_SEED env var.
+ */
+export function getDefaultSeed(): string {
+  return process.env.MOCK_DATA_SEED?.trim() || DEFAULT_SEED;
+}
+
+/**
+ * Simple string hash for consistent random generation.
+ */
+export function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return hash;
+}
+
+/**
+ * Create a seeded random function returning values between 0 and 1.
+ * The sequence depends only on the seed and the extra parts.
+ */
+export function createSeededRandom(seed: string, ...parts: (string | number)[]): () => number {
+  let hash = hashString([seed, ...parts].join("|"));
+
+  return () => {
+    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
+    return hash / 0x7fffffff;
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Nightly rate calendar for the Hotel Booking demo.
+ * Prices each night of a stay from a room's base rate, with weekend premiums,
+ * seasonal rates per city and discounts for longer stays. Each rate also
+ * carries a cancellation policy that sets the refund by how early a stay is cancelled.
+ */
+
+import { addDays, daysBetween } from "./geo.js";
+
+export type CancellationPolicyName = "flexible" | "moderate" | "strict";
+
+/**
+ * A period of the year with its own rates in one city.
+ */
+interface SeasonalRate {
+  name: string; // e.g. "Cherry blossom"
+  months: number[]; // 1-12
+  multiplier: number;
+}
+
+/**
+ * Price of one night of a stay.
+ */
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD, the night starting on this date
+  baseRate: number;
+  season?: string; // Season applied to the night, if any
+  weekend: boolean;
+  price: number; // Before any length-of-stay discount
+}
+
+/**
+ * Price of one room for a whole stay, night by night.
+ */
+export interface StayPrice {
+  nights: NightlyRate[];
+  subtotal: number; // Sum of the nightly prices
+  discountPercent: number; // Length-of-stay discount, 0-1
+  discount: number; // Amount taken off the subtotal
+  total: number;
+  averageNightlyRate: number; // Total spread evenly over the nights
+}
+
+/**
+ * Refund for cancelling at least a number of days before check-in.
+ */
+export interface CancellationTier {
+  minDaysBeforeCheckIn: number;
+  refundPercent: number; // Share of the stay price returned, 0-1
+}
+
+/**
+ * Cancellation terms of a room rate.
+ */
+export interface CancellationPolicy {
+  name: CancellationPolicyName;
+  description: string;
+  tiers: CancellationTier[]; // Checked in order; cancelling later than every tier refunds nothing
+}
+
+/**
+ * Seasons per city, checked in order. Months not listed use the base rate.
+ */
+const CITY_SEASONS: Record<string, SeasonalRate[]> = {
+  Paris: [
+    { name: "Summer", months: [6, 7, 8], multiplier: 1.25 },
+    { name: "Holidays", months: [12], multiplier: 1.15 },
+    { name: "Low season", months: [1, 2], multiplier: 0.85 },
+  ],
+  "New York": [
+    { name: "Holidays", months: [12], multiplier: 1.3 },
+    { name: "Autumn", months: [9, 10], multiplier: 1.15 },
+    { name: "Low season", months: [1, 2], multiplier: 0.8 },
+  ],
+  Tokyo: [
+    { name: "Cherry blossom", months: [3, 4], multiplier: 1.3 },
+    { name: "Autumn leaves", months: [10, 11], multiplier: 1.15 },
+    { name: "Rainy season", months: [6], multiplier: 0.9 },
+  ],
+  London: [
+    { name: "Summer", months: [6, 7, 8], multiplier: 1.2 },
+    { name: "Holidays", months: [12], multiplier: 1.15 },
+    { name: "Low season", months: [1, 2], multiplier: 0.85 },
+  ],
+  Dubai: [
+    { name: "Winter peak", months: [11, 12, 1, 2, 3], multiplier: 1.25 },
+    { name: "Summer heat", months: [6, 7, 8], multiplier: 0.7 },
+  ],
+  Singapore: [
+    { name: "Grand Prix", months: [9], multiplier: 1.3 },
+    { name: "Holidays", months: [12], multiplier: 1.15 },
+  ],
+  Barcelona: [
+    { name: "Summer", months: [6, 7, 8], multiplier: 1.3 },
+    { name: "Low season", months: [11, 1, 2], multiplier: 0.85 },
+  ],
+  Sydney: [
+    { name: "Summer holidays", months: [12, 1], multiplier: 1.3 },
+    { name: "Winter", months: [6, 7, 8], multiplier: 0.85 },
+  ],
+  Rome: [
+    { name: "Spring", months: [4, 5, 6], multiplier: 1.2 },
+    { name: "Autumn", months: [9, 10], multiplier: 1.15 },
+    { name: "Low season", months: [11, 1, 2], multiplier: 0.85 },
+  ],
+  Amsterdam: [
+    { name: "Tulip season", months: [4, 5], multiplier: 1.25 },
+    { name: "Summer", months: [6, 7, 8], multiplier: 1.2 },
+    { name: "Low season", months: [1, 2], multiplier: 0.85 },
+  ],
+};
+
+// Premium on Friday and Saturday nights
+const WEEKEND_PREMIUM = 0.2;
+
+// Nights of the week that count as the weekend (0 = Sunday)
+const WEEKEND_NIGHTS = [5, 6];
+
+/**
+ * Discounts by length of stay, checked in order.
+ */
+const LENGTH_OF_STAY_DISCOUNTS: { minNights: number; discountPercent: number }[] = [
+  { minNights: 14, discountPercent: 0.15 },
+  { minNights: 7, discountPercent: 0.1 },
+];
+
+/**
+ * Cancellation policies offered on room rates.
+ */
+export const CANCELLATION_POLICIES: Record<CancellationPolicyName, CancellationPolicy> = {
+  flexible: {
+    name: "flexible",
+    description: "Free cancellation until 1 day before check-in",
+    tiers: [{ minDaysBeforeCheckIn: 1, refundPercent: 1 }],
+  },
+  moderate: {
+    name: "moderate",
+    description: "Free cancellation until 7 days before check-in, 50% refund until 2 days before",
+    tiers: [
+      { minDaysBeforeCheckIn: 7, refundPercent: 1 },
+      { minDaysBeforeCheckIn: 2, refundPercent: 0.5 },
+    ],
+  },
+  strict: {
+    name: "strict",
+    description: "Free cancellation until 14 days before check-in, 50% refund until 7 days before",
+    tiers: [
+      { minDaysBeforeCheckIn: 14, refundPercent: 1 },
+      { minDaysBeforeCheckIn: 7, refundPercent: 0.5 },
+    ],
+  },
+};
+
+/**
+ * Find the season a date falls in for a city, if any.
+ */
+function getSeason(city: string, date: string): SeasonalRate | undefined {
+  const month = Number(date.slice(5, 7));
+  return CITY_SEASONS[city]?.find((season) => season.months.includes(month));
+}
+
+/**
+ * Price one night from a room's base rate.
+ */
+export function priceNight(city: string, baseRate: number, date: string): NightlyRate {
+  const season = getSeason(city, date);
+  const weekend = WEEKEND_NIGHTS.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+  return {
+    date,
+    baseRate,
+    season: season?.name,
+    weekend,
+    price: Math.round(baseRate * (season?.multiplier ?? 1) * (weekend ? 1 + WEEKEND_PREMIUM : 1)),
+  };
+}
+
+/**
+ * Price one room for a stay, night by night, with any length-of-stay discount.
+ */
+export function priceStay(city: string, baseRate: number, checkIn: string, nights: number): StayPrice {
+  const rates = Array.from({ length: nights }, (_, i) => priceNight(city, baseRate, addDays(checkIn, i)));
+  const subtotal = rates.reduce((sum, night) => sum + night.price, 0);
+  const discountPercent = LENGTH_OF_STAY_DISCOUNTS.find((tier) => nights >= tier.minNights)?.discountPercent ?? 0;
+  const discount = Math.round(subtotal * discountPercent);
+  const total = subtotal - discount;
+
+  return {
+    nights: rates,
+    subtotal,
+    discountPercent,
+    discount,
+    total,
+    averageNightlyRate: Math.round(total / nights),
+  };
+}
+
+/**
+ * Get the share of a stay's price refunded for cancelling on a given day.
+ */
+export function getRefundPercent(policy: CancellationPolicy, checkIn: string, today: string): number {
+  const daysBefore = daysBetween(today, checkIn);
+  return policy.tiers.find((tier) => daysBefore >= tier.minDaysBeforeCheckIn)?.refundPercent ?? 0;
+}
@@ -0,0 +1,335 @@
+/**
+ * Guest reviews for the Hotel Booking demo.
+ * Each hotel has a seeded sample of reviews behind its rating, and guests with
+ * a completed stay can add their own, which feeds into the hotel's aggregate rating.
+ */
+
+import { now, today as serverToday } from "./clock.js";
+import { addDays } from "./geo.js";
+import { getHotel, getHotelBooking, Hotel, recordHotelRating } from "./hotels.js";
+import { createSeededRandom, getDefaultSeed } from "./random.js";
+
+export type TravellerType = "solo" | "couple" | "family" | "business" | "friends";
+export type ReviewSortBy = "newest" | "highest" | "lowest";
+export type ReviewAspect = "cleanliness" | "location" | "service";
+
+/**
+ * Scores from 1 to 10 for each aspect of a stay.
+ */
+export type ReviewScores = Record<ReviewAspect, number>;
+
+/**
+ * One guest's review of a hotel.
+ */
+export interface HotelReview {
+  id: string;
+  hotelId: string;
+  confirmationNumber?: string; // Booking reviewed, for reviews submitted by guests
+  guestName: string; // e.g. "Maria G."
+  travellerType: TravellerType;
+  scores: ReviewScores;
+  overall: number; // Average of the scores, one decimal place
+  title: string;
+  text: string;
+  stayDate: string; // YYYY-MM-DD, the check-in date
+  submittedAt: string;
+}
+
+/**
+ * Averages across a hotel's reviews.
+ */
+export interface ReviewSummary {
+  rating: number; // Aggregate guest rating of the hotel, 1-10
+  reviewCount: number; // Reviews behind the rating
+  averageScores: ReviewScores; // Across the reviews listed
+}
+
+/**
+ * One page of a hotel's reviews.
+ */
+export interface HotelReviewPage {
+  hotelId: string;
+  hotelName: string;
+  reviews: HotelReview[];
+  page: number; // 1-based
+  pageSize: number;
+  totalReviews: number; // Reviews that can be listed
+  totalPages: number;
+  sortBy: ReviewSortBy;
+  summary: ReviewSummary;
+}
+
+// Reviews submitted by guests, keyed by hotel ID
+export const hotelReviews: Map<string, HotelReview[]> = new Map();
+
+// Generated sample reviews, keyed by "<seed>-<hotel ID>"
+const sampleReviews: Map<string, HotelReview[]> = new Map();
+
+export const TRAVELLER_TYPES: TravellerType[] = ["solo", "couple", "family", "business", "friends"];
+
+const REVIEW_ASPECTS: ReviewAspect[] = ["cleanliness", "location", "service"];
+
+// Largest page of reviews returned at once
+const MAX_PAGE_SIZE = 20;
+
+// Shortest review text accepted
+const MIN_REVIEW_LENGTH = 20;
+
+// Longest review text accepted
+const MAX_REVIEW_LENGTH = 2000;
+
+const GUEST_FIRST_NAMES = [
+  "Maria", "James", "Aiko", "Lucas", "Priya", "Tom", "Sofia", "Chen",
+  "Amara", "Oliver", "Ines", "Mateo", "Hannah", "Yusuf", "Elena", "Kai",
+];
+
+/**
+ * Sentences for each aspect by how well it scored.
+ */
+const ASPECT_PHRASES: Record<ReviewAspect, { good: string[]; mixed: string[]; poor: string[] }> = {
+  cleanliness: {
+    good: ["The room was spotless and the bathroom felt brand new.", "Housekeeping kept everything immaculate."],
+    mixed: ["The room was clean enough, though the carpet had seen better days.", "Mostly tidy, but the bathroom needed attention."],
+    poor: ["The room was not properly cleaned when we arrived.", "Dust everywhere and the sheets were stained."],
+  },
+  location: {
+    good: ["The location is perfect, with everything within walking distance.", "Great neighbourhood with plenty of restaurants nearby."],
+    mixed: ["The area is fine, but you will need public transport for most sights.", "A bit of a walk to the centre, though the metro is close."],
+    poor: ["The location felt isolated and noisy at night.", "Far from everything we wanted to see."],
+  },
+  service: {
+    good: ["The staff went out of their way to help us.", "Check-in was quick and the front desk was wonderful."],
+    mixed: ["Staff were polite but not especially helpful.", "Service was slow at breakfast but friendly."],
+    poor: ["We waited a long time at reception and nobody apologised.", "Requests to the front desk were ignored."],
+  },
+};
+
+/**
+ * Review titles by overall score, checked in order.
+ */
+const REVIEW_TITLES: { minScore: number; title: string }[] = [
+  { minScore: 9, title: "Exceptional stay" },
+  { minScore: 8, title: "Very good" },
+  { minScore: 7, title: "Pleasant stay" },
+  { minScore: 5, title: "Mixed experience" },
+  { minScore: 0, title: "Disappointing" },
+];
+
+/**
+ * Generate a unique review ID.
+ */
+function generateReviewId(): string {
+  return `review-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Average a review's scores to one decimal place.
+ */
+function overallScore(scores: ReviewScores): number {
+  return Math.round((REVIEW_ASPECTS.reduce((sum, aspect) => sum + scores[aspect], 0) / REVIEW_ASPECTS.length) * 10) / 10;
+}
+
+/**
+ * Get the title for a review's overall score.
+ */
+function reviewTitle(overall: number): string {
+  return REVIEW_TITLES.find((t) => overall >= t.minScore)!.title;
+}
+
+/**
+ * Generate the sample reviews behind a catalogue hotel's rating.
+ * Scores cluster around the hotel's rating, so the sample reads like it.
+ */
+function generateSampleReviews(hotel: Hotel, seed: string): HotelReview[] {
+  const random = createSeededRandom(seed, "reviews", hotel.id);
+  const count = Math.min(hotel.reviewCount, 8 + Math.floor(random() * 13));
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const today = serverToday();
+
+  return Array.from({ length: count }, (_, index) => {
+    const scores = Object.fromEntries(
+      REVIEW_ASPECTS.map((aspect) => [aspect, Math.max(1, Math.min(10, Math.round(hotel.rating + (random() - 0.5) * 3)))])
+    ) as ReviewScores;
+    const overall = overallScore(scores);
+    const text = REVIEW_ASPECTS.map((aspect) => {
+      const phrases = ASPECT_PHRASES[aspect];
+      return pick(scores[aspect] >= 8 ? phrases.good : scores[aspect] >= 6 ? phrases.mixed : phrases.poor);
+    }).join(" ");
+    const stayDate = addDays(today, -(14 + Math.floor(random() * 540)));
+    const lastInitial = String.fromCharCode(65 + Math.floor(random() * 26));
+
+    return {
+      id: `${hotel.id.replace(/^hotel-/, "review-")}-${index + 1}`,
+      hotelId: hotel.id,
+      guestName: `${pick(GUEST_FIRST_NAMES)} ${lastInitial}.`,
+      travellerType: pick(TRAVELLER_TYPES),
+      scores,
+      overall,
+      title: reviewTitle(overall),
+      text,
+      stayDate,
+      submittedAt: `${addDays(stayDate, 3 + Math.floor(random() * 10))}T12:00:00.000Z`,
+    };
+  });
+}
+
+/**
+ * List every review of a hotel: the seeded sample plus any submitted by guests.
+ */
+function listReviews(hotel: Hotel, seed: string): HotelReview[] {
+  const key = `${seed}-${hotel.id}`;
+  let sample = sampleReviews.get(key);
+
+  if (!sample) {
+    sample = generateSampleReviews(hotel, seed);
+    sampleReviews.set(key, sample);
+  }
+
+  return [...sample, ...(hotelReviews.get(hotel.id) ?? [])];
+}
+
+/**
+ * Sort reviews in place by the requested order.
+ */
+function sortReviews(reviews: HotelReview[], sortBy: ReviewSortBy): HotelReview[] {
+  const newest = (a: HotelReview, b: HotelReview) => b.submittedAt.localeCompare(a.submittedAt);
+
+  switch (sortBy) {
+    case "highest":
+      return reviews.sort((a, b) => b.overall - a.overall || newest(a, b));
+    case "lowest":
+      return reviews.sort((a, b) => a.overall - b.overall || newest(a, b));
+    default:
+      return reviews.sort(newest);
+  }
+}
+
+/**
+ * Get one page of a hotel's reviews with a summary of its scores.
+ * Returns undefined when the hotel does not exist.
+ */
+export function getHotelReviews(
+  hotelId: string,
+  options: { page?: number; pageSize?: number; sortBy?: ReviewSortBy; seed?: string } = {}
+): HotelReviewPage | undefined {
+  const { page = 1, pageSize = 5, sortBy = "newest", seed = getDefaultSeed() } = options;
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error("page must be a whole number of 1 or more");
+  }
+
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new Error(`pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const hotel = getHotel(hotelId, { seed });
+  if (!hotel) return undefined;
+
+  const reviews = sortReviews(listReviews(hotel, seed), sortBy);
+  const averageScores = Object.fromEntries(
+    REVIEW_ASPECTS.map((aspect) => [
+      aspect,
+      reviews.length > 0
+        ? Math.round((reviews.reduce((sum, r) => sum + r.scores[aspect], 0) / reviews.length) * 10) / 10
+        : 0,
+    ])
+  ) as ReviewScores;
+
+  return {
+    hotelId: hotel.id,
+    hotelName: hotel.name,
+    reviews: reviews.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    totalReviews: reviews.length,
+    totalPages: Math.max(1, Math.ceil(reviews.length / pageSize)),
+    sortBy,
+    summary: {
+      rating: hotel.rating,
+      reviewCount: hotel.reviewCount,
+      averageScores,
+    },
+  };
+}
+
+/**
+ * Submit a review for a completed hotel stay.
+ * Each booking can be reviewed once, after check-out, and the review's overall
+ * score is added to the hotel's aggregate rating.
+ */
+export function submitHotelReview(params: {
+  confirmationNumber: string;
+  travellerType: TravellerType;
+  scores: ReviewScores;
+  text: string;
+  title?: string;
+}): { success: boolean; message: string; review?: HotelReview; rating?: number; reviewCount?: number } {
+  const booking = getHotelBooking(params.confirmationNumber);
+  if (!booking) {
+    return { success: false, message: `Booking ${params.confirmationNumber} not found` };
+  }
+
+  if (booking.status !== "confirmed") {
+    return { success: false, message: `Booking ${booking.confirmationNumber} was cancelled, so it cannot be reviewed` };
+  }
+
+  if (booking.checkOut > serverToday()) {
+    return {
+      success: false,
+      message: `${booking.hotel.name} can be reviewed after check-out on ${booking.checkOut}`,
+    };
+  }
+
+  const submitted = hotelReviews.get(booking.hotel.id) ?? [];
+  if (submitted.some((r) => r.confirmationNumber === booking.confirmationNumber)) {
+    return { success: false, message: `Booking ${booking.confirmationNumber} has already been reviewed` };
+  }
+
+  const invalidAspect = REVIEW_ASPECTS.find((aspect) => {
+    const score = params.scores[aspect];
+    return !Number.isInteger(score) || score < 1 || score > 10;
+  });
+  if (invalidAspect) {
+    return { success: false, message: `The ${invalidAspect} score must be a whole number from 1 to 10` };
+  }
+
+  const text = params.text.trim();
+  if (text.length < MIN_REVIEW_LENGTH || text.length > MAX_REVIEW_LENGTH) {
+    return {
+      success: false,
+      message: `Review text must be ${MIN_REVIEW_LENGTH}-${MAX_REVIEW_LENGTH} characters`,
+    };
+  }
+
+  const scores = { cleanliness: params.scores.cleanliness, location: params.scores.location, service: params.scores.service };
+  const overall = overallScore(scores);
+  const [firstName, ...otherNames] = booking.guests[0].name.trim().split(/\s+/);
+  const lastName = otherNames.pop();
+
+  const review: HotelReview = {
+    id: generateReviewId(),
+    hotelId: booking.hotel.id,
+    confirmationNumber: booking.confirmationNumber,
+    guestName: lastName ? `${firstName} ${lastName.charAt(0).toUpperCase()}.` : firstName,
+    travellerType: params.travellerType,
+    scores,
+    overall,
+    title: params.title?.trim() || reviewTitle(overall),
+    text,
+    stayDate: booking.checkIn,
+    submittedAt: new Date(now()).toISOString(),
+  };
+
+  hotelReviews.set(booking.hotel.id, [...submitted, review]);
+  recordHotelRating(booking.hotel.id, overall);
+
+  const hotel = getHotel(booking.hotel.id)!;
+
+  return {
+    success: true,
+    message: `Thanks for reviewing ${hotel.name}! It is now rated ${hotel.rating}/10 from ${hotel.reviewCount} reviews.`,
+    review,
+    rating: hotel.rating,
+    reviewCount: hotel.reviewCount,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Traveller data layer shared by the booking demos.
+ * Contains passenger validation rules and saved traveller profiles.
+ */
+
+import { now, today as serverToday } from "./clock.js";
+import { isValidDate } from "./dates.js";
+
+/**
+ * Passport details required on international routes.
+ */
+export interface PassportDetails {
+  number: string;
+  nationality: string; // ISO 3166 alpha-2 country code, e.g. "US"
+  expiryDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Personal details for one traveller.
+ */
+export interface TravellerDetails {
+  name: string;
+  email: string;
+  phone: string; // E.164, e.g. "+14155550100"
+  dateOfBirth?: string; // YYYY-MM-DD
+  passport?: PassportDetails;
+}
+
+/**
+ * A saved traveller that can be reused on later bookings.
+ */
+export interface TravellerProfile extends TravellerDetails {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A validation problem with one field of one passenger.
+ */
+export interface FieldError {
+  passengerIndex: number;
+  field: string; // e.g. "email" or "passport.expiryDate"
+  message: string;
+}
+
+// In-memory storage for saved traveller profiles
+export const travellerProfiles: Map<string, TravellerProfile> = new Map();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const PASSPORT_PATTERN = /^[A-Z0-9]{6,9}$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+// Oldest age accepted for a date of birth
+const MAX_AGE_YEARS = 120;
+
+/**
+ * Generate a unique profile ID.
+ */
+function generateProfileId(): string {
+  return `traveller-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Validate the details of one traveller.
+ * Passport details are only required when the trip crosses a border, and must
+ * stay valid until the last travel date.
+ */
+export function validateTraveller(
+  traveller: Partial<TravellerDetails>,
+  options: { passengerIndex?: number; requirePassport?: boolean; lastTravelDate?: string } = {}
+): FieldError[] {
+  const { passengerIndex = 0, requirePassport = false, lastTravelDate } = options;
+  const errors: FieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ passengerIndex, field, message });
+  const today = serverToday();
+
+  if (!traveller.name?.trim()) {
+    fail("name", "Name is required");
+  }
+
+  if (!traveller.email?.trim()) {
+    fail("email", "Email is required");
+  } else if (!EMAIL_PATTERN.test(traveller.email.trim())) {
+    fail("email", "Enter a valid email address");
+  }
+
+  if (!traveller.phone?.trim()) {
+    fail("phone", "Phone number is required");
+  } else if (!E164_PATTERN.test(traveller.phone.replace(/[\s()-]/g, ""))) {
+    fail("phone", "Enter the phone number in international format, e.g. +14155550100");
+  }
+
+  if (!traveller.dateOfBirth) {
+    fail("dateOfBirth", "Date of birth is required");
+  } else if (!isValidDate(traveller.dateOfBirth)) {
+    fail("dateOfBirth", "Enter the date of birth as YYYY-MM-DD");
+  } else if (traveller.dateOfBirth > today) {
+    fail("dateOfBirth", "Date of birth cannot be in the future");
+  } else if (Number(today.slice(0, 4)) - Number(traveller.dateOfBirth.slice(0, 4)) > MAX_AGE_YEARS) {
+    fail("dateOfBirth", "Check the year of birth");
+  }
+
+  const passport = traveller.passport;
+  if (requirePassport && !passport) {
+    fail("passport", "Passport details are required for international travel");
+  } else if (passport) {
+    if (!PASSPORT_PATTERN.test(passport.number?.toUpperCase() ?? "")) {
+      fail("passport.number", "Passport number must be 6-9 letters or digits");
+    }
+    if (!COUNTRY_PATTERN.test(passport.nationality?.toUpperCase() ?? "")) {
+      fail("passport.nationality", "Nationality must be a two-letter country code, e.g. US");
+    }
+    if (!passport.expiryDate || !isValidDate(passport.expiryDate)) {
+      fail("passport.expiryDate", "Enter the passport expiry date as YYYY-MM-DD");
+    } else if (passport.expiryDate < (lastTravelDate ?? today)) {
+      fail("passport.expiryDate", lastTravelDate
+        ? `Passport expires before the end of the trip (${lastTravelDate})`
+        : "Passport has expired");
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate every passenger on a booking.
+ */
+export function validatePassengers(
+  passengers: Partial<TravellerDetails>[],
+  options: { requirePassport?: boolean; lastTravelDate?: string } = {}
+): FieldError[] {
+  return passengers.flatMap((passenger, passengerIndex) =>
+    validateTraveller(passenger, { ...options, passengerIndex })
+  );
+}
+
+/**
+ * Put traveller details into their stored form: trimmed, E.164 phone and upper-case passport fields.
+ */
+export function normalizeTraveller<T extends TravellerDetails>(traveller: T): T {
+  return {
+    ...traveller,
+    name: traveller.name.trim(),
+    email: traveller.email.trim().toLowerCase(),
+    phone: traveller.phone.replace(/[\s()-]/g, ""),
+    passport: traveller.passport && {
+      number: traveller.passport.number.toUpperCase(),
+      nationality: traveller.passport.nationality.toUpperCase(),
+      expiryDate: traveller.passport.expiryDate,
+    },
+  };
+}
+
+/**
+ * Summarise field errors as one readable message.
+ */
+export function describeFieldErrors(errors: FieldError[]): string {
+  return errors.map((e) => `Passenger ${e.passengerIndex + 1} ${e.field}: ${e.message}`).join("; ");
+}
+
+/**
+ * Save a new traveller profile, or update one when an ID is given.
+ */
+export function saveTravellerProfile(
+  details: TravellerDetails & { id?: string }
+): { success: boolean; message: string; profile?: TravellerProfile; fieldErrors?: FieldError[] } {
+  const { id, ...traveller } = details;
+
+  const existing = id ? travellerProfiles.get(id) : undefined;
+  if (id && !existing) {
+    return { success: false, message: `Traveller profile not found: ${id}` };
+  }
+
+  const fieldErrors = validateTraveller(traveller);
+  if (fieldErrors.length > 0) {
+    return { success: false, message: describeFieldErrors(fieldErrors), fieldErrors };
+  }
+
+  const updatedAt = new Date(now()).toISOString();
+  const profile: TravellerProfile = {
+    ...normalizeTraveller(traveller),
+    id: existing?.id ?? generateProfileId(),
+    createdAt: existing?.createdAt ?? updatedAt,
+    updatedAt,
+  };
+
+  travellerProfiles.set(profile.id, profile);
+
+  return {
+    success: true,
+    message: `${existing ? "Updated" : "Saved"} traveller profile for ${profile.name}`,
+    profile,
+  };
+}
+
+/**
+ * List saved traveller profiles, most recently updated first.
+ */
+export function listTravellerProfiles(): TravellerProfile[] {
+  return [...travellerProfiles.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a saved traveller profile.
+ */
+export function deleteTravellerProfile(id: string): { success: boolean; message: string } {
+  const profile = travellerProfiles.get(id);
+  if (!profile) {
+    return { success: false, message: `Traveller profile not found: ${id}` };
+  }
+
+  travellerProfiles.delete(id);
+  return { success: true, message: `Deleted traveller profile for ${profile.name}` };
+}
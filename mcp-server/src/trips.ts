@@ -0,0 +1,443 @@
+/**
+ * Trips for the booking demos.
+ * Groups flight and hotel bookings into one trip, lays them out as a day-by-day
+ * itinerary and checks that the flights and stays fit together.
+ */
+
+import { now } from "./clock.js";
+import { getEstimatedArrivalTime, getEstimatedDepartureTime, getFlightStatus } from "./disruptions.js";
+import { Booking, BookedLeg, describeSeats, getBooking } from "./flights.js";
+import { addDays, utcToZonedTime } from "./geo.js";
+import { getHotelBooking, HotelBooking } from "./hotels.js";
+
+export type TripEventType = "departure" | "arrival" | "check-in" | "check-out";
+export type TripIssueType =
+  | "flight-cancelled"
+  | "check-in-before-arrival"
+  | "check-out-after-departure"
+  | "hotel-not-on-route"
+  | "night-without-hotel";
+export type TripIssueSeverity = "warning" | "error";
+
+/**
+ * A group of flight and hotel bookings for one journey.
+ */
+export interface Trip {
+  id: string;
+  name: string;
+  flightBookings: string[]; // Confirmation numbers
+  hotelBookings: string[]; // Confirmation numbers
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Something that happens on one day of a trip.
+ */
+export interface TripEvent {
+  type: TripEventType;
+  time?: string; // HH:MM, local to where it happens
+  title: string; // e.g. "BA117 JFK → LHR"
+  detail: string;
+  confirmationNumber: string;
+}
+
+/**
+ * A problem with how the bookings of a trip fit together.
+ */
+export interface TripIssue {
+  type: TripIssueType;
+  severity: TripIssueSeverity;
+  date: string; // YYYY-MM-DD, the first day affected
+  message: string;
+  confirmationNumbers: string[];
+}
+
+/**
+ * One day of a trip's itinerary.
+ */
+export interface TripDay {
+  date: string;
+  city?: string; // Where the traveller is at the end of the day, when known
+  events: TripEvent[]; // In time order
+  hotel?: { name: string; confirmationNumber: string }; // Where the night is spent
+  issues: TripIssue[];
+}
+
+/**
+ * A trip with its bookings laid out day by day.
+ */
+export interface TripItinerary {
+  trip: Trip;
+  flightBookings: Booking[];
+  hotelBookings: HotelBooking[];
+  startDate?: string; // Unset while the trip has no confirmed bookings
+  endDate?: string;
+  cities: string[]; // Cities visited, in order
+  totalPrice: number; // Confirmed bookings only
+  days: TripDay[];
+  issues: TripIssue[];
+}
+
+/**
+ * Time in one city between arriving on one flight and leaving on the next.
+ */
+interface CityVisit {
+  city: string;
+  arrival: { date: string; time: string; leg: BookedLeg; confirmationNumber: string };
+  departure?: { date: string; time: string; leg: BookedLeg; confirmationNumber: string };
+}
+
+// In-memory storage for trips
+export const trips: Map<string, Trip> = new Map();
+
+// Hotels without published times use these
+const HOTEL_CHECK_IN_TIME = "15:00";
+const HOTEL_CHECK_OUT_TIME = "11:00";
+
+/**
+ * Generate a unique trip ID.
+ */
+function generateTripId(): string {
+  return `trip-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Sort confirmation numbers into flight and hotel bookings.
+ * Each booking must exist and can only belong to one trip.
+ */
+function resolveBookings(
+  confirmationNumbers: string[],
+  tripId?: string
+): { flights?: string[]; hotels?: string[]; message?: string } {
+  const flights: string[] = [];
+  const hotels: string[] = [];
+
+  for (const value of confirmationNumbers) {
+    const confirmationNumber = value.trim().toUpperCase();
+    const isFlight = getBooking(confirmationNumber) !== undefined;
+    if (!isFlight && !getHotelBooking(confirmationNumber)) {
+      return { message: `Booking ${confirmationNumber} not found` };
+    }
+
+    const owner = [...trips.values()].find(
+      (trip) => trip.flightBookings.includes(confirmationNumber) || trip.hotelBookings.includes(confirmationNumber)
+    );
+    if (owner && owner.id !== tripId) {
+      return { message: `Booking ${confirmationNumber} is already part of the trip "${owner.name}"` };
+    }
+
+    const list = isFlight ? flights : hotels;
+    if (!list.includes(confirmationNumber)) list.push(confirmationNumber);
+  }
+
+  return { flights, hotels };
+}
+
+/**
+ * Create a trip from existing flight and hotel bookings.
+ */
+export function createTrip(
+  name: string,
+  confirmationNumbers: string[]
+): { success: boolean; message: string; trip?: Trip } {
+  if (!name.trim()) {
+    return { success: false, message: "Give the trip a name" };
+  }
+
+  const { flights, hotels, message } = resolveBookings(confirmationNumbers);
+  if (!flights || !hotels) {
+    return { success: false, message: message! };
+  }
+
+  const createdAt = new Date(now()).toISOString();
+  const trip: Trip = {
+    id: generateTripId(),
+    name: name.trim(),
+    flightBookings: flights,
+    hotelBookings: hotels,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  trips.set(trip.id, trip);
+
+  return {
+    success: true,
+    message: `Created trip "${trip.name}" with ${flights.length} flight and ${hotels.length} hotel booking(s)`,
+    trip,
+  };
+}
+
+/**
+ * Add more bookings to a trip. Bookings already on the trip are ignored.
+ */
+export function addBookingsToTrip(
+  tripId: string,
+  confirmationNumbers: string[]
+): { success: boolean; message: string; trip?: Trip } {
+  const trip = trips.get(tripId);
+  if (!trip) {
+    return { success: false, message: `Trip not found: ${tripId}` };
+  }
+
+  const { flights, hotels, message } = resolveBookings(confirmationNumbers, trip.id);
+  if (!flights || !hotels) {
+    return { success: false, message: message! };
+  }
+
+  const added = [...flights, ...hotels].filter(
+    (c) => !trip.flightBookings.includes(c) && !trip.hotelBookings.includes(c)
+  );
+  trip.flightBookings = [...new Set([...trip.flightBookings, ...flights])];
+  trip.hotelBookings = [...new Set([...trip.hotelBookings, ...hotels])];
+  trip.updatedAt = new Date(now()).toISOString();
+
+  return {
+    success: true,
+    message: added.length > 0 ? `Added ${added.join(", ")} to "${trip.name}"` : `Those bookings are already on "${trip.name}"`,
+    trip,
+  };
+}
+
+/**
+ * Get a trip by ID.
+ */
+export function getTrip(tripId: string): Trip | undefined {
+  return trips.get(tripId);
+}
+
+/**
+ * Follow the flights of a trip from city to city, using the expected times
+ * after any delays. Cancelled flights are left out.
+ */
+function traceVisits(flightBookings: Booking[]): { home?: string; visits: CityVisit[] } {
+  const legs = flightBookings
+    .flatMap((booking) => booking.legs.map((leg) => ({ leg, confirmationNumber: booking.confirmationNumber })))
+    .filter(({ leg }) => getFlightStatus(leg.flight).status !== "cancelled")
+    .sort((a, b) => getEstimatedDepartureTime(a.leg.flight) - getEstimatedDepartureTime(b.leg.flight));
+
+  const visits = legs.map(({ leg, confirmationNumber }, index): CityVisit => {
+    const next = legs[index + 1];
+    const arrival = utcToZonedTime(getEstimatedArrivalTime(leg.flight), leg.flight.destination.timezone);
+    const departure = next && utcToZonedTime(getEstimatedDepartureTime(next.leg.flight), next.leg.flight.origin.timezone);
+
+    return {
+      city: leg.flight.destination.city,
+      arrival: { ...arrival, leg, confirmationNumber },
+      departure: departure && { ...departure, leg: next.leg, confirmationNumber: next.confirmationNumber },
+    };
+  });
+
+  return { home: legs[0]?.leg.flight.origin.city, visits };
+}
+
+/**
+ * List the dates from one date up to, but not including, another.
+ */
+function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date < to; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+/**
+ * Check the flights and hotel stays of a trip fit together.
+ */
+function findIssues(flightBookings: Booking[], hotelBookings: HotelBooking[]): TripIssue[] {
+  const issues: TripIssue[] = [];
+  const { home, visits } = traceVisits(flightBookings);
+
+  for (const booking of flightBookings) {
+    for (const leg of booking.legs) {
+      if (getFlightStatus(leg.flight).status === "cancelled") {
+        issues.push({
+          type: "flight-cancelled",
+          severity: "error",
+          date: leg.flight.departureDate,
+          message: `${leg.flight.flightNumber} ${leg.flight.origin.code} → ${leg.flight.destination.code} has been cancelled. Rebook it to keep the trip on track.`,
+          confirmationNumbers: [booking.confirmationNumber],
+        });
+      }
+    }
+  }
+
+  // Stays can only be checked against the route when there are flights
+  if (visits.length > 0) {
+    for (const stay of hotelBookings) {
+      const city = stay.hotel.city;
+      const visit = visits.find(
+        (v) => v.city === city && v.arrival.date < stay.checkOut && (!v.departure || v.departure.date > stay.checkIn)
+      );
+
+      if (!visit) {
+        issues.push({
+          type: "hotel-not-on-route",
+          severity: "error",
+          date: stay.checkIn,
+          message: `The stay at ${stay.hotel.name} (${stay.checkIn} to ${stay.checkOut}) is in ${city}, but no flight on this trip has you there on those dates`,
+          confirmationNumbers: [stay.confirmationNumber],
+        });
+        continue;
+      }
+
+      const flight = visit.arrival.leg.flight;
+      if (visit.arrival.date > stay.checkIn) {
+        issues.push({
+          type: "check-in-before-arrival",
+          severity: "warning",
+          date: stay.checkIn,
+          message: `Check-in at ${stay.hotel.name} is on ${stay.checkIn}, but ${flight.flightNumber} only lands in ${city} on ${visit.arrival.date} at ${visit.arrival.time}. The nights before are paid for but unused.`,
+          confirmationNumbers: [stay.confirmationNumber, visit.arrival.confirmationNumber],
+        });
+      }
+
+      if (visit.departure && visit.departure.date < stay.checkOut) {
+        const leaving = visit.departure.leg.flight;
+        issues.push({
+          type: "check-out-after-departure",
+          severity: "warning",
+          date: visit.departure.date,
+          message: `${leaving.flightNumber} leaves ${city} on ${visit.departure.date}, but the stay at ${stay.hotel.name} runs until ${stay.checkOut}. The nights after are paid for but unused.`,
+          confirmationNumbers: [stay.confirmationNumber, visit.departure.confirmationNumber],
+        });
+      }
+    }
+  }
+
+  // Every night spent away from home needs a hotel in that city
+  for (const visit of visits) {
+    if (visit.city === home || !visit.departure) continue;
+
+    const uncovered = datesBetween(visit.arrival.date, visit.departure.date).filter(
+      (night) => !hotelBookings.some((stay) => stay.hotel.city === visit.city && stay.checkIn <= night && night < stay.checkOut)
+    );
+
+    // Report each run of consecutive nights once
+    let start = 0;
+    for (let i = 1; i <= uncovered.length; i++) {
+      if (i < uncovered.length && uncovered[i] === addDays(uncovered[i - 1], 1)) continue;
+      const first = uncovered[start];
+      const last = uncovered[i - 1];
+      const nights = i - start;
+      issues.push({
+        type: "night-without-hotel",
+        severity: "warning",
+        date: first,
+        message: `No hotel booked in ${visit.city} for ${nights === 1 ? `the night of ${first}` : `${nights} nights, ${first} to ${addDays(last, 1)}`}`,
+        confirmationNumbers: [visit.arrival.confirmationNumber],
+      });
+      start = i;
+    }
+  }
+
+  return issues.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Lay out the events of a trip's bookings by local date.
+ */
+function collectEvents(flightBookings: Booking[], hotelBookings: HotelBooking[]): Map<string, TripEvent[]> {
+  const events: Map<string, TripEvent[]> = new Map();
+  const add = (date: string, event: TripEvent) => events.set(date, [...(events.get(date) ?? []), event]);
+
+  for (const booking of flightBookings) {
+    for (const leg of booking.legs) {
+      const flight = leg.flight;
+      const status = getFlightStatus(flight);
+      const title = `${flight.flightNumber} ${flight.origin.code} → ${flight.destination.code}`;
+      const departure = utcToZonedTime(getEstimatedDepartureTime(flight), flight.origin.timezone);
+      const arrival = utcToZonedTime(getEstimatedArrivalTime(flight), flight.destination.timezone);
+      const note = status.status === "cancelled" ? " (cancelled)" : status.delayMinutes > 0 ? ` (delayed ${status.delayMinutes} min)` : "";
+
+      add(departure.date, {
+        type: "departure",
+        time: departure.time,
+        title,
+        detail: `${flight.airline.name} from ${flight.origin.city}, ${describeSeats(leg.seats)}${note}`,
+        confirmationNumber: booking.confirmationNumber,
+      });
+      add(arrival.date, {
+        type: "arrival",
+        time: arrival.time,
+        title,
+        detail: `Lands in ${flight.destination.city}${note}`,
+        confirmationNumber: booking.confirmationNumber,
+      });
+    }
+  }
+
+  for (const stay of hotelBookings) {
+    const rooms = stay.rooms.map((line) => `${line.quantity}x ${line.room.name}`).join(", ");
+    add(stay.checkIn, {
+      type: "check-in",
+      time: HOTEL_CHECK_IN_TIME,
+      title: stay.hotel.name,
+      detail: `Check in, ${rooms} for ${stay.nights} night(s)`,
+      confirmationNumber: stay.confirmationNumber,
+    });
+    add(stay.checkOut, {
+      type: "check-out",
+      time: HOTEL_CHECK_OUT_TIME,
+      title: stay.hotel.name,
+      detail: "Check out",
+      confirmationNumber: stay.confirmationNumber,
+    });
+  }
+
+  for (const dayEvents of events.values()) {
+    dayEvents.sort((a, b) => (a.time ?? "").localeCompare(b.time ?? ""));
+  }
+  return events;
+}
+
+/**
+ * Build the day-by-day itinerary of a trip from the current state of its bookings.
+ * Cancelled bookings are listed but left out of the timeline and checks.
+ */
+export function buildItinerary(trip: Trip): TripItinerary {
+  const flightBookings = trip.flightBookings.map((c) => getBooking(c)).filter((b): b is Booking => b !== undefined);
+  const hotelBookings = trip.hotelBookings.map((c) => getHotelBooking(c)).filter((b): b is HotelBooking => b !== undefined);
+  const flights = flightBookings.filter((b) => b.status === "confirmed");
+  const hotels = hotelBookings.filter((b) => b.status === "confirmed");
+
+  const events = collectEvents(flights, hotels);
+  const issues = findIssues(flights, hotels);
+  const { visits } = traceVisits(flights);
+
+  const dates = [...events.keys()].sort();
+  const startDate = dates[0];
+  const endDate = dates[dates.length - 1];
+
+  const days = startDate
+    ? [...datesBetween(startDate, endDate), endDate].map((date): TripDay => {
+        const stay = hotels.find((h) => h.checkIn <= date && date < h.checkOut);
+        // The last flight to land by the end of the day sets the city
+        const visit = [...visits].reverse().find((v) => v.arrival.date <= date);
+        return {
+          date,
+          city: visit?.city ?? stay?.hotel.city,
+          events: events.get(date) ?? [],
+          hotel: stay && { name: stay.hotel.name, confirmationNumber: stay.confirmationNumber },
+          issues: issues.filter((issue) => issue.date === date),
+        };
+      })
+    : [];
+
+  const cities = visits.map((v) => v.city).filter((city, i, all) => city !== all[i - 1]);
+  for (const stay of hotels) {
+    if (!cities.includes(stay.hotel.city)) cities.push(stay.hotel.city);
+  }
+
+  return {
+    trip,
+    flightBookings,
+    hotelBookings,
+    startDate,
+    endDate,
+    cities,
+    totalPrice: [...flights, ...hotels].reduce((sum, b) => sum + b.totalPrice, 0),
+    days,
+    issues,
+  };
+}
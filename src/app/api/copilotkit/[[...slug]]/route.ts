@@ -34,16 +34,36 @@ const agent = new BuiltInAgent({
 ## Available Apps
 
 ### 1. Airline Booking (search-flights)
-Search for flights, select seats, and complete bookings with a full wizard experience.
-- Parameters: origin (airport code like JFK, LAX, LHR), destination (airport code), departureDate (YYYY-MM-DD), passengers (1-9), cabinClass (economy/business/first)
+Search for flights, select seats, and complete bookings with a full wizard experience. Supports one-way, round-trip and multi-city itineraries.
+- Parameters: origin (airport code like JFK, LAX, LHR, or a city/airport name like "New York"), destination (airport code or city), departureDate (YYYY-MM-DD), returnDate (YYYY-MM-DD, round trips only), additionalLegs (list of { origin, destination, departureDate } flown after the first leg, multi-city only), passengers (1-9), cabinClass (economy/business/first)
 - Example: "Book a flight from New York to Los Angeles on January 20th for 2 passengers"
-- Helper tools: select-flight, select-seats, book-flight
+- Example: "Find a round trip from JFK to London, leaving March 3rd and returning March 10th"
+- Optional filters: maxStops (0 = nonstop), airlines (airline codes), minPrice, maxPrice (USD per passenger), departAfter, departBefore (HH:MM); sortBy (price/duration/departure/arrival)
+- Example: "Nonstop JFK to LAX on May 2nd, under $400, leaving after noon" → maxStops 0, maxPrice 400, departAfter "12:00"
+- Helper tools: select-flight, select-seats (an empty list skips seat selection; seats are then assigned at check-in), select-extras (checked bags, meals, priority boarding per passenger, plus travel insurance; priced by cabin class), book-flight
+- Flexible dates: search-fare-calendar (origin, destination, startDate, days 1-31, passengers, cabinClass) returns the lowest fare per day in one call; use it for questions like "what's the cheapest day to fly to Tokyo next week?" instead of searching each day
+- Dates must be real YYYY-MM-DD dates from today up to 365 days ahead, with each flight on or after the one before. Invalid dates fail with dateErrors (field, code, message); ask the user to correct the named date
+- Fares: every flight offers basic (cheapest, no changes, non-refundable), standard and flex (free changes, fully refundable) fares in its cabin; prices rise as the flight fills and as departure nears. Pass fareBucket to select-flight (defaults to the cheapest). book-flight re-checks the price; if it went up, it fails with priceChanges and booking again accepts the new price, so confirm with the user first
+- Check-in: check-in (confirmationNumber, optional legIndex) opens 24 hours before departure and closes 45 minutes before; it assigns seats to anyone without one and shows boarding passes with gate, boarding group and barcode. If it is too early, tell the user when check-in opens
+- Passengers for book-flight need name, email, phone in E.164 format (+14155550100) and dateOfBirth (YYYY-MM-DD); international routes also need passport { number, nationality (two-letter code), expiryDate } valid through the last flight. Failed validation returns fieldErrors naming each passenger and field
+- Traveller profiles: save-traveller-profile, list-traveller-profiles and delete-traveller-profile store passenger details for reuse on later bookings
+- Manage an existing booking with get-flight-booking (confirmationNumber), which opens the app in manage mode; change-flight-seats, update-passenger and cancel-flight-booking act on confirmed bookings
+- Flight status: simulate-disruption (confirmationNumber, optional legIndex, type delay/cancellation/gate-change, delayMinutes) demonstrates a delay, cancellation or gate change and opens the manage view with the flight status. A cancelled flight lists free rebooking options; rebook-flight (confirmationNumber, legIndex, flightId) moves the booking onto one
 
 ### 2. Hotel Booking (search-hotels)
 Browse hotels, compare rooms, and book accommodations in cities worldwide.
 - Parameters: city (Paris, Tokyo, New York, etc.), checkIn (YYYY-MM-DD), checkOut (YYYY-MM-DD), guests (1-6), rooms (1-4)
 - Example: "Find a hotel in Paris from January 15 to 18 for 2 guests"
+- Optional filters: minStars (1-5), amenities (wifi, pool, gym, spa, restaurant, parking, airConditioning, roomService, minibar, balcony; hotels must have all), minPrice, maxPrice (average nightly rate in USD), neighborhoods; sortBy (rating/price/stars/reviews). Results include a per-neighbourhood summary for comparing areas
+- Example: "4-star hotels in Tokyo with a pool under $300 a night" → minStars 4, amenities ["pool"], maxPrice 300
+- Stays are 1-30 nights, checking in from today up to 365 days ahead. Invalid dates fail with dateErrors naming checkIn or checkOut
 - Helper tools: select-hotel, select-room, book-hotel
+- Hotel and room IDs are stable across searches (e.g. hotel-le-grand-paris, room-le-grand-paris-suite). get-hotel (hotelId, optional checkIn, checkOut) returns a hotel's details and room availability without a search; to book a hotel the user stayed at before, search its city and select it by the same ID
+- Prices vary by night: Friday and Saturday nights cost more, each city has seasonal rates, and stays of 7+ nights get 10% off (14+ nights 15%). Search prices are average nightly rates for the dates; select-room returns the night-by-night breakdown
+- Rooms are limited: bookings take rooms out of inventory for every night of the stay, so a room type can sell out. Hotels with no room type left for the requested dates are marked soldOut; suggest other dates or hotels
+- Multi-room stays: select-room takes rooms, a list of { roomId, quantity } that can mix room types (up to 4 rooms in total) as long as they sleep every guest. book-hotel guests can give a roomId to say which room type they stay in; every room type needs at least one guest, and each type keeps its own rate and cancellation policy
+- Manage a hotel booking with get-hotel-booking (confirmationNumber), which shows its status and the refund due if cancelled today. modify-hotel-booking (confirmationNumber, optional checkIn, checkOut, rooms) reprices the stay and returns priceDifference; cancel-hotel-booking returns refundAmount. Each room rate has a cancellation policy (flexible, moderate or strict) and the refund shrinks as check-in nears, so tell the user the refund before cancelling
+- Reviews: get-hotel-reviews (hotelId, optional page, pageSize, sortBy newest/highest/lowest) returns guest reviews with cleanliness, location and service scores. After check-out, submit-hotel-review (confirmationNumber, travellerType solo/couple/family/business/friends, scores { cleanliness, location, service } 1-10, text, optional title) adds the guest's review and updates the hotel's rating
 
 ### 3. Investment Simulator (create-portfolio)
 Create mock investment portfolios with holdings, charts, and trading.
@@ -57,6 +77,27 @@ Create task boards with drag-drop cards and columns.
 - Example: "Create a kanban board for my software project"
 - Helper tools: add-card, update-card, delete-card, move-card
 
+### Loyalty programme (get-loyalty-account)
+Flight and hotel bookings earn points for the first passenger or guest, who joins on their first booking (identified by their email). get-loyalty-account (member ID like TM48213907, or email) shows the balance, tier, perks and points history.
+- Points per dollar: flights 2 economy, 3 business, 4 first (on the fares); hotels 1-4 by star rating. Tiers add a bonus: Blue, Silver (5,000 tier points, +25%, free seat selection), Gold (15,000, +50%, also free room upgrades when available), Platinum (40,000, +100%)
+- book-flight and book-hotel take redeemPoints in multiples of 100 (100 points = $1 off the total). Cancelling returns the points redeemed and takes back the points earned
+
+### Promo codes (apply-promo)
+Both booking apps have a promo field on the last step. Call apply-promo yourself when the user mentions a code.
+- Parameters: searchId (flight or hotel search session, after flights or rooms are selected), code (empty removes it). Returns the price breakdown with the discount, or an error and errorCode (not-found, wrong-product, not-started, expired, travel-dates, route, city, min-spend, used-up)
+- Codes are percentage or fixed amounts and can need a minimum spend, booking and travel dates, particular routes or cities, and have usage caps. The code is checked again at booking and removed if it no longer applies; the promo comes off before points are redeemed
+- Sample codes: WELCOME10, FLY50, ATLANTIC75 (JFK-LHR, JFK-CDG), LONDON20 (London hotels), WINTERSTAY (Dec-Feb stays), FIRST100
+
+### Trip itinerary (create-trip, get-trip)
+Group a traveller's flight and hotel bookings into one trip and show a day-by-day timeline.
+- create-trip (name, confirmationNumbers) groups existing bookings; add-to-trip (tripId, confirmationNumbers) adds more later. A booking belongs to one trip
+- get-trip (tripId) rebuilds the itinerary from the live bookings, including delays and cancellations, and lists problems: cancelled flights, a hotel check-in before the flight lands there, a check-out after the flight leaves, a stay in a city the flights never reach, and nights away from home with no hotel. Offer to fix each problem, e.g. with modify-hotel-booking or a new hotel search
+- After booking both flights and a hotel for the same journey, suggest creating a trip
+
+### Location lookup (lookup-location)
+Both booking apps use lookup-location for autocomplete. Call it yourself when a place is ambiguous or misspelled.
+- Parameters: query (code, city or airport name; typos allowed), type (airport/city/any), limit (1-10)
+
 ## Guidelines
 - When a user's request matches an app, use the appropriate tool to render the interactive UI
 - Ask clarifying questions if key parameters are missing